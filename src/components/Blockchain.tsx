@@ -5,12 +5,14 @@ import Asset from "./Asset";
 import Button from "./Button";
 import Column from "./Column";
 import Loader from "./Loader";
+import Nft from "./Nft";
 
 import { getChainMetadata } from "../chains";
 import {
   AccountAction,
   ellipseAddress,
   AccountBalances,
+  AccountNfts,
   ChainMetadata,
   ChainNamespaces,
   ChainData,
@@ -89,6 +91,7 @@ interface BlockchainProps {
   address?: string;
   onClick?: (chain: string) => void;
   balances?: AccountBalances;
+  nfts?: AccountNfts;
   actions?: AccountAction[];
 }
 
@@ -124,6 +127,7 @@ const Blockchain: FC<PropsWithChildren<BlockchainProps>> = (
     onClick,
     active,
     balances,
+    nfts,
     actions,
   } = props;
   if (!Object.keys(chainData).length) return null;
@@ -139,6 +143,10 @@ const Blockchain: FC<PropsWithChildren<BlockchainProps>> = (
     typeof account !== "undefined" && typeof balances !== "undefined"
       ? balances[account]
       : [];
+  const accountNfts =
+    typeof account !== "undefined" && typeof nfts !== "undefined"
+      ? nfts[account]
+      : [];
   return (
     <React.Fragment>
       <SAccount
@@ -172,6 +180,19 @@ const Blockchain: FC<PropsWithChildren<BlockchainProps>> = (
                   </Column>
                 </SFullWidthContainer>
               ) : null}
+              {!!accountNfts && accountNfts.length ? (
+                <SFullWidthContainer>
+                  <h6>NFTs</h6>
+                  <Column center>
+                    {accountNfts.map((nft) => (
+                      <Nft
+                        key={`${nft.tokenId}-${nft.serialNumber}`}
+                        nft={nft}
+                      />
+                    ))}
+                  </Column>
+                </SFullWidthContainer>
+              ) : null}
               {address && !!actions && actions.length ? (
                 <SFullWidthContainer>
                   <h6>Methods</h6>
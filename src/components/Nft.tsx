@@ -0,0 +1,47 @@
+import * as React from "react";
+import styled from "styled-components";
+
+import Icon from "./Icon";
+
+import { NftData } from "../helpers";
+import { fonts } from "../styles";
+
+const SNft = styled.div`
+  width: 100%;
+  padding: 20px;
+  display: flex;
+  align-items: center;
+`;
+
+const SNftDetails = styled.div`
+  display: flex;
+  flex-direction: column;
+  margin-left: 10px;
+  text-align: left;
+`;
+
+const SNftDescription = styled.div`
+  font-size: ${fonts.size.small};
+`;
+
+interface NftProps {
+  nft: NftData;
+}
+
+const Nft = (props: NftProps) => {
+  const { nft } = props;
+  return (
+    <SNft>
+      <Icon size={40} src={nft.image} fallback={"/assets/erc20.svg"} />
+      <SNftDetails>
+        <div>{`${nft.name ?? nft.metadata} #${nft.serialNumber}`}</div>
+        <SNftDescription>{nft.tokenId}</SNftDescription>
+        {!!nft.description && (
+          <SNftDescription>{nft.description}</SNftDescription>
+        )}
+      </SNftDetails>
+    </SNft>
+  );
+};
+
+export default Nft;
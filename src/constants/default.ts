@@ -55,11 +55,22 @@ export enum DEFAULT_NEAR_EVENTS {}
  */
 export enum DEFAULT_HEDERA_METHODS {
   HEDERA_SIGN_AND_EXECUTE_TRANSACTION = "hedera_signAndExecuteTransaction",
-  HEDERA_SIGN_AND_RETURN_TRANSACTION = "hedera_signAndReturnTransaction",
   HEDERA_SIGN_MESSAGE = "hedera_signMessage",
 }
 
-export enum DEFAULT_HEDERA_EVENTS {}
+export enum DEFAULT_HEDERA_OPTIONAL_METHODS {
+  HEDERA_SIGN_AND_EXECUTE_BATCH = "hedera_signAndExecuteBatch",
+  HEDERA_SIGN_AND_RETURN_TRANSACTION = "hedera_signAndReturnTransaction",
+  HEDERA_SIGN_TRANSACTION = "hedera_signTransaction",
+  HEDERA_EXECUTE_TRANSACTION = "hedera_executeTransaction",
+  HEDERA_SIGN_AND_EXECUTE_QUERY = "hedera_signAndExecuteQuery",
+  HEDERA_GET_NODE_ADDRESSES = "hedera_getNodeAddresses",
+}
+
+export enum DEFAULT_HEDERA_EVENTS {
+  HEDERA_CHAIN_CHANGED = "chainChanged",
+  HEDERA_ACCOUNTS_CHANGED = "accountsChanged",
+}
 
 export const DEFAULT_GITHUB_REPO_URL =
   "https://github.com/WalletConnect/web-examples/tree/main/dapps/react-dapp-v2";
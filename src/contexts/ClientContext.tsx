@@ -20,8 +20,16 @@ import {
   DEFAULT_PROJECT_ID,
   DEFAULT_RELAY_URL,
 } from "../constants";
-import { AccountBalances, apiGetAccountBalance } from "../helpers";
 import {
+  AccountBalances,
+  AccountNfts,
+  apiGetAccountBalance,
+  apiGetAccountNfts,
+} from "../helpers";
+import {
+  applyHederaSessionEvent,
+  getApprovedHederaChains,
+  isHederaSessionEvent,
   getOptionalNamespaces,
   getRequiredNamespaces,
 } from "../helpers/namespaces";
@@ -40,7 +48,9 @@ interface IContext {
   pairings: PairingTypes.Struct[];
   accounts: string[];
   balances: AccountBalances;
+  nfts: AccountNfts;
   isFetchingBalances: boolean;
+  refreshBalances: () => Promise<void>;
   setChains: any;
   setRelayerRegion: any;
 }
@@ -76,6 +86,7 @@ export function ClientContextProvider({
   const prevRelayerValue = useRef<string>("");
 
   const [balances, setBalances] = useState<AccountBalances>({});
+  const [nfts, setNfts] = useState<AccountNfts>({});
   const [accounts, setAccounts] = useState<string[]>([]);
   const [chains, setChains] = useState<string[]>([]);
   const [relayerRegion, setRelayerRegion] = useState<string>(
@@ -85,6 +96,7 @@ export function ClientContextProvider({
   const reset = () => {
     setSession(undefined);
     setBalances({});
+    setNfts({});
     setAccounts([]);
     setChains([]);
     setRelayerRegion(DEFAULT_RELAY_URL!);
@@ -97,16 +109,31 @@ export function ClientContextProvider({
         _accounts.map(async (account) => {
           const [namespace, reference, address] = account.split(":");
           const chainId = `${namespace}:${reference}`;
-          const assets = await apiGetAccountBalance(address, chainId);
-          return { account, assets: [assets] };
+          // a failing NFT lookup must not hide the account's balance
+          const [assets, accountNfts] = await Promise.allSettled([
+            apiGetAccountBalance(address, chainId),
+            apiGetAccountNfts(address, chainId),
+          ]);
+          [assets, accountNfts].forEach((settled) => {
+            if (settled.status === "rejected") console.error(settled.reason);
+          });
+          return {
+            account,
+            assets: assets.status === "fulfilled" ? [assets.value] : [],
+            accountNfts:
+              accountNfts.status === "fulfilled" ? accountNfts.value : [],
+          };
         })
       );
 
       const balances: AccountBalances = {};
-      arr.forEach(({ account, assets }) => {
+      const nfts: AccountNfts = {};
+      arr.forEach(({ account, assets, accountNfts }) => {
         balances[account] = assets;
+        nfts[account] = accountNfts;
       });
       setBalances(balances);
+      setNfts(nfts);
     } catch (e) {
       console.error(e);
     } finally {
@@ -210,8 +237,33 @@ export function ClientContextProvider({
         console.log("EVENT", "session_ping", args);
       });
 
-      _client.on("session_event", (args) => {
-        console.log("EVENT", "session_event", args);
+      _client.on("session_event", async ({ topic, params }) => {
+        console.log("EVENT", "session_event", { topic, params });
+        const { event, chainId } = params;
+        if (!chainId.startsWith("hedera:")) return;
+        if (!isHederaSessionEvent(event)) {
+          console.error("Malformed Hedera session event:", event);
+          return;
+        }
+
+        try {
+          // keep the stored session in sync, so later events build on it
+          const _session = _client.session.get(topic);
+          const namespaces = applyHederaSessionEvent(
+            _session.namespaces,
+            chainId,
+            event,
+            getApprovedHederaChains(_session)
+          );
+          if (namespaces === _session.namespaces) {
+            console.error("Ignored Hedera session event:", event);
+            return;
+          }
+          await _client.session.update(topic, { namespaces });
+          onSessionConnected({ ..._session, namespaces });
+        } catch (e) {
+          console.error(e);
+        }
       });
 
       _client.on("session_update", ({ topic, params }) => {
@@ -305,12 +357,19 @@ export function ClientContextProvider({
     }
   }, [createClient, relayerRegion, client]);
 
+  const refreshBalances = useCallback(
+    () => getAccountBalances(accounts),
+    [accounts]
+  );
+
   const value = useMemo(
     () => ({
       pairings,
       isInitializing,
       balances,
+      nfts,
       isFetchingBalances,
+      refreshBalances,
       accounts,
       chains,
       relayerRegion,
@@ -325,7 +384,9 @@ export function ClientContextProvider({
       pairings,
       isInitializing,
       balances,
+      nfts,
       isFetchingBalances,
+      refreshBalances,
       accounts,
       chains,
       relayerRegion,
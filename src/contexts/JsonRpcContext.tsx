@@ -2,6 +2,7 @@ import { BigNumber, utils } from "ethers";
 import { createContext, ReactNode, useContext, useState } from "react";
 import * as encoding from "@walletconnect/encoding";
 import { Transaction as EthTransaction } from "@ethereumjs/tx";
+import Long from "long";
 import {
   Hbar,
   TransferTransaction,
@@ -10,6 +11,35 @@ import {
   RequestType,
   TopicMessageSubmitTransaction,
   Transaction,
+  TokenCreateTransaction,
+  TokenMintTransaction,
+  TokenBurnTransaction,
+  TokenAssociateTransaction,
+  TokenDissociateTransaction,
+  TokenType,
+  NftId,
+  TokenId,
+  Status,
+  ContractExecuteTransaction,
+  ContractCreateTransaction,
+  FileCreateTransaction,
+  FileAppendTransaction,
+  ScheduleSignTransaction,
+  AccountUpdateTransaction,
+  PublicKey,
+  AccountAllowanceApproveTransaction,
+  AccountAllowanceDeleteTransaction,
+  TopicCreateTransaction,
+  TopicUpdateTransaction,
+  TopicDeleteTransaction,
+  Query,
+  AccountInfo,
+  AccountInfoQuery,
+  TokenInfo,
+  TokenInfoQuery,
+  ContractCallQuery,
+  ContractFunctionResult,
+  ReceiptStatusError,
 } from "@hashgraph/sdk";
 import {
   eip712,
@@ -21,14 +51,65 @@ import {
   rpcProvidersByChainId,
   HederaParamsFactory,
   HederaSessionRequestParams,
+  HederaResponses,
+  HederaSignAndExecuteTransactionResult,
+  validateHederaResponse,
+  isHederaTransactionSuccessful,
+  addHederaSignatures,
+  getHederaTransactionBodyBytes,
+  executeHederaTransaction,
+  describeHederaTransaction,
+  compareHederaTransactions,
+  getHederaTransactionSigners,
+  decodeHederaQueryResponse,
   createOrRestoreHederaTransferReceiverAddress,
-  createOrRestoreHederaTopicId,
+  apiGetHederaAccountPublicKey,
+  apiGetHederaAccountKey,
+  isHederaKeySatisfied,
+  verifyHederaMessageSignatures,
+  hashHederaMessage,
+  getHederaTransactionReceipt,
+  apiGetHederaTokenAssociation,
+  apiGetHederaTokenInfo,
+  encodeHederaNftMetadata,
+  encodeHederaContractCall,
+  decodeHederaContractResult,
+  decodeHederaContractLogs,
+  apiGetHederaContractResult,
+  encodeHederaContractConstructor,
+  chunkHederaFileContents,
+  restoreHederaContractDeployment,
+  saveHederaContractDeployment,
+  clearHederaContractDeployment,
+  HEDERA_MISSING_FILE_STATUSES,
+  apiGetHederaSchedule,
+  scheduleHederaTransaction,
+  HEDERA_SCHEDULABLE_TRANSACTIONS,
+  apiGetHederaAccountAllowances,
+  apiGetHederaAccountTopics,
+  apiGetHederaTopicMessage,
+  apiGetHederaNetworkNodes,
+  getHederaNodeAccountIds,
+  restoreHederaNodeAccountIds,
+  saveHederaNodeAccountIds,
+  getHederaErrorStatus,
+  parseHederaError,
+  HederaError,
+  HederaMethod,
+  isHederaRetryableError,
+  HEDERA_MAX_RETRIES,
+  HEDERA_TOPIC_MESSAGE_CHUNK_SIZE,
+  HEDERA_TOPIC_MESSAGE_MAX_CHUNKS,
+  toWad,
+  fromWad,
+  FormValues,
 } from "../helpers";
 import { useWalletConnectClient } from "./ClientContext";
 import {
   DEFAULT_EIP155_METHODS,
   DEFAULT_EIP155_OPTIONAL_METHODS,
   DEFAULT_HEDERA_METHODS,
+  DEFAULT_HEDERA_OPTIONAL_METHODS,
 } from "../constants";
 
 /**
@@ -38,11 +119,50 @@ interface IFormattedRpcResponse {
   method?: string;
   address?: string;
   valid: boolean;
-  result: string;
+  /** Hedera responses are decoded into fields that are shown as a table */
+  result: string | Record<string, unknown>;
+  /** Cause of a failed request and how to remedy it */
+  error?: HederaError;
+  items?: IFormattedRpcResultItem[];
+  /** Problems with the response that should stand out */
+  warnings?: string[];
+}
+
+/**
+ * Outcome of one of several transactions sent in a single request
+ */
+interface IFormattedRpcResultItem {
+  label: string;
+  success: boolean;
+  detail: string;
+}
+
+/**
+ * Progress of a request that is made up of several wallet requests
+ */
+interface IRpcProgress {
+  step: number;
+  total: number;
+  label: string;
+}
+
+/**
+ * Retry of a request that failed with a retryable Hedera status
+ */
+interface IRpcRetry {
+  attempt: number;
+  maxRetries: number;
+  status: string;
 }
 
 type TRpcRequestCallback = (chainId: string, address: string) => Promise<void>;
 
+type TRpcFormRequestCallback = (
+  chainId: string,
+  address: string,
+  values: FormValues
+) => Promise<void>;
+
 interface IContext {
   ping: () => Promise<void>;
   ethereumRpc: {
@@ -55,16 +175,52 @@ interface IContext {
   };
   hederaRpc: {
     testSignAndExecuteCryptoTransfer: TRpcRequestCallback;
-    testSignAndExecuteTopicSubmitMessage: TRpcRequestCallback;
+    testSignAndExecuteTopicSubmitMessage: TRpcFormRequestCallback;
     testSignAndReturnCryptoTransfer: TRpcRequestCallback;
+    testSignCryptoTransfer: TRpcRequestCallback;
+    testSignReturnAndExecuteCryptoTransfer: TRpcFormRequestCallback;
     testSignMessage: TRpcRequestCallback;
+    testSignAndExecuteAccountInfoQuery: TRpcFormRequestCallback;
+    testSignAndExecuteTokenInfoQuery: TRpcFormRequestCallback;
+    testSignAndExecuteContractCallQuery: TRpcFormRequestCallback;
+    testSignAndExecuteTokenCreate: TRpcFormRequestCallback;
+    testSignAndExecuteTokenMint: TRpcFormRequestCallback;
+    testSignAndExecuteTokenBurn: TRpcFormRequestCallback;
+    testSignAndExecuteTokenAssociate: TRpcFormRequestCallback;
+    testSignAndExecuteTokenDissociate: TRpcFormRequestCallback;
+    testSignAndExecuteTokenTransfer: TRpcFormRequestCallback;
+    testSignAndExecuteNftCreate: TRpcFormRequestCallback;
+    testSignAndExecuteNftMint: TRpcFormRequestCallback;
+    testSignAndExecuteNftTransfer: TRpcFormRequestCallback;
+    testSignAndExecuteContractCall: TRpcFormRequestCallback;
+    testDeployContract: TRpcFormRequestCallback;
+    testSignAndExecuteScheduleCreate: TRpcFormRequestCallback;
+    testSignAndExecuteScheduleSign: TRpcFormRequestCallback;
+    testGetScheduleInfo: TRpcFormRequestCallback;
+    testSignAndExecuteAccountUpdate: TRpcFormRequestCallback;
+    testGetAllowances: TRpcRequestCallback;
+    testSignAndExecuteAllowanceApprove: TRpcFormRequestCallback;
+    testSignAndExecuteAllowanceRevoke: TRpcFormRequestCallback;
+    testSignAndExecuteApprovedTransfer: TRpcFormRequestCallback;
+    testGetTopics: TRpcRequestCallback;
+    testSignAndExecuteTopicCreate: TRpcFormRequestCallback;
+    testSignAndExecuteTopicUpdate: TRpcFormRequestCallback;
+    testSignAndExecuteTopicDelete: TRpcFormRequestCallback;
+    testSignAndExecuteBatch: TRpcFormRequestCallback;
+    testSelectNodes: TRpcFormRequestCallback;
+    testGetNodeAddresses: TRpcRequestCallback;
   };
   rpcResult?: IFormattedRpcResponse | null;
+  rpcProgress?: IRpcProgress | null;
+  rpcRetry?: IRpcRetry | null;
   isRpcRequestPending: boolean;
   isTestnet: boolean;
   setIsTestnet: (isTestnet: boolean) => void;
 }
 
+/** Number of decimals in an HBAR, i.e. 1 HBAR = 10^8 tinybars */
+const HBAR_DECIMALS = 8;
+
 /**
  * Context
  */
@@ -80,18 +236,22 @@ export function JsonRpcContextProvider({
 }) {
   const [pending, setPending] = useState(false);
   const [result, setResult] = useState<IFormattedRpcResponse | null>();
+  const [progress, setProgress] = useState<IRpcProgress | null>();
+  const [retry, setRetry] = useState<IRpcRetry | null>();
   const [isTestnet, setIsTestnet] = useState(getLocalStorageTestnetFlag());
 
-  const { client, session, accounts, balances } = useWalletConnectClient();
+  const { client, session, accounts, balances, refreshBalances } =
+    useWalletConnectClient();
 
   const _createJsonRpcRequestHandler =
-    (
+    <T extends unknown[]>(
       rpcRequest: (
         chainId: string,
-        address: string
+        address: string,
+        ...args: T
       ) => Promise<IFormattedRpcResponse>
     ) =>
-    async (chainId: string, address: string) => {
+    async (chainId: string, address: string, ...args: T) => {
       if (typeof client === "undefined") {
         throw new Error("WalletConnect is not initialized");
       }
@@ -101,16 +261,42 @@ export function JsonRpcContextProvider({
 
       try {
         setPending(true);
-        const result = await rpcRequest(chainId, address);
-        setResult(result);
+        for (let attempt = 1; ; attempt++) {
+          try {
+            const result = await rpcRequest(chainId, address, ...args);
+            setResult(result);
+            break;
+          } catch (err: any) {
+            if (
+              !chainId.startsWith("hedera:") ||
+              attempt > HEDERA_MAX_RETRIES ||
+              !isHederaRetryableError(err)
+            ) {
+              throw err;
+            }
+            // running the request again builds its transactions with a new
+            // transaction id and freezes them for the currently selected nodes
+            setProgress(null);
+            setRetry({
+              attempt,
+              maxRetries: HEDERA_MAX_RETRIES,
+              status: getHederaErrorStatus(err)!.toString(),
+            });
+          }
+        }
       } catch (err: any) {
         setResult({
           address,
           valid: false,
           result: err?.message ?? err,
+          ...(chainId.startsWith("hedera:") && {
+            error: parseHederaError(err),
+          }),
         });
       } finally {
         setPending(false);
+        setProgress(null);
+        setRetry(null);
       }
     };
 
@@ -426,6 +612,179 @@ export function JsonRpcContextProvider({
       .setTransactionId(transactionId);
   };
 
+  /**
+   * Builders shared by the actions that execute a transaction right away and
+   * the ScheduleCreate action that wraps them in a schedule
+   */
+  const _buildHbarTransferTransaction = (
+    senderId: string,
+    receiverId: string,
+    amount: Hbar
+  ) =>
+    new TransferTransaction()
+      .addHbarTransfer(senderId, amount.negated())
+      .addHbarTransfer(receiverId, amount);
+
+  const _buildTokenTransferTransaction = async (
+    senderId: string,
+    receiverId: string,
+    tokenId: string,
+    amount: string
+  ) => {
+    const { decimals, symbol } = await apiGetHederaTokenInfo(tokenId);
+    const units = Long.fromString(toWad(amount, decimals).toString());
+    const transaction = new TransferTransaction()
+      .addTokenTransferWithDecimals(tokenId, senderId, units.negate(), decimals)
+      .addTokenTransferWithDecimals(tokenId, receiverId, units, decimals);
+    return { transaction, units, decimals, symbol };
+  };
+
+  const _buildTokenMintTransaction = (tokenId: string, amount: string) =>
+    new TokenMintTransaction()
+      .setTokenId(tokenId)
+      .setAmount(Long.fromString(amount.trim()));
+
+  /**
+   * Sends a Hedera request to the wallet and checks the shape of its response
+   */
+  const _requestHedera = async <M extends HederaMethod>(
+    chainId: string,
+    method: M,
+    params: HederaSessionRequestParams["request"]["params"]
+  ): Promise<HederaResponses[M]> => {
+    const payload: HederaSessionRequestParams = {
+      topic: session!.topic,
+      chainId,
+      request: {
+        method,
+        params,
+      },
+    };
+
+    return validateHederaResponse(method, await client!.request(payload));
+  };
+
+  const _signAndExecuteHederaTransaction = async (
+    chainId: string,
+    type: RequestType,
+    transaction: Transaction
+  ) => {
+    const params = HederaParamsFactory.buildTransactionPayload(
+      type,
+      transaction,
+      await getHederaNodeAccountIds(chainId)
+    );
+
+    return _requestHedera(
+      chainId,
+      DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION,
+      params
+    );
+  };
+
+  /**
+   * Asks the wallet to pay for and execute the query, and decodes its output
+   */
+  const _signAndExecuteHederaQuery = async (
+    chainId: string,
+    query: Query<unknown>
+  ) => {
+    const params = HederaParamsFactory.buildQueryPayload(query);
+
+    const result = await _requestHedera(
+      chainId,
+      DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY,
+      params
+    );
+    return { raw: result, output: decodeHederaQueryResponse(query, result) };
+  };
+
+  /**
+   * Asks the wallet to sign without executing, and returns the signed transaction
+   */
+  const _signAndReturnHederaTransaction = async (
+    chainId: string,
+    type: RequestType,
+    transaction: Transaction
+  ): Promise<Transaction> => {
+    const params = HederaParamsFactory.buildTransactionPayload(
+      type,
+      transaction,
+      await getHederaNodeAccountIds(chainId)
+    );
+
+    const result = await _requestHedera(
+      chainId,
+      DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION,
+      params
+    );
+    return Transaction.fromBytes(
+      Buffer.from(result.transaction.bytes, "base64")
+    );
+  };
+
+  const _parseList = (list: string) =>
+    list
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  /**
+   * Transfers to accounts that are not associated with the token fail with
+   * TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, so check the mirror node first. The
+   * wallet can only sign the association for one of the session's accounts,
+   * other receivers have to associate the token themselves.
+   */
+  const _ensureHederaTokenAssociation = async (
+    chainId: string,
+    receiverId: string,
+    tokenId: string
+  ) => {
+    const isAssociated = await apiGetHederaTokenAssociation(
+      receiverId,
+      tokenId
+    );
+    if (isAssociated) return;
+
+    if (!accounts.includes(`${chainId}:${receiverId}`)) {
+      throw new Error(
+        `Receiver ${receiverId} is not associated with token ${tokenId}`
+      );
+    }
+
+    const shouldAssociate = window.confirm(
+      `Account ${receiverId} is not associated with token ${tokenId}. Ask the wallet to associate it first?`
+    );
+    if (!shouldAssociate) {
+      throw new Error(
+        `Account ${receiverId} is not associated with token ${tokenId}`
+      );
+    }
+
+    const transactionId = TransactionId.generate(receiverId);
+    const transaction = new TokenAssociateTransaction()
+      .setAccountId(receiverId)
+      .setTokenIds([tokenId])
+      .setTransactionId(transactionId);
+
+    await _signAndExecuteHederaTransaction(
+      chainId,
+      RequestType.TokenAssociateToAccount,
+      transaction
+    );
+    try {
+      await getHederaTransactionReceipt(transactionId);
+    } catch (err) {
+      if (err instanceof ReceiptStatusError) {
+        throw new Error(
+          `Failed to associate ${receiverId} with token ${tokenId}: ${err.status.toString()}`,
+          { cause: err }
+        );
+      }
+      throw err;
+    }
+  };
+
   const hederaRpc = {
     testSignAndExecuteCryptoTransfer: _createJsonRpcRequestHandler(
       async (
@@ -436,71 +795,88 @@ export function JsonRpcContextProvider({
           DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
 
         const transaction = await _buildTestTransferTransaction(address);
+        const transactionId = transaction.transactionId!;
 
-        const params = HederaParamsFactory.buildTransactionPayload(
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
           RequestType.CryptoTransfer,
           transaction
         );
-
-        const payload: HederaSessionRequestParams = {
-          topic: session!.topic,
-          chainId,
-          request: {
-            method,
-            params,
-          },
-        };
-
-        const result = await client!.request(payload);
+        const receipt = await getHederaTransactionReceipt(transactionId);
 
         return {
           method,
           address,
-          valid: true,
-          result: JSON.stringify(result),
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
         };
       }
     ),
     testSignAndExecuteTopicSubmitMessage: _createJsonRpcRequestHandler(
       async (
         chainId: string,
-        address: string
+        address: string,
+        values: FormValues
       ): Promise<IFormattedRpcResponse> => {
         const method =
           DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
 
+        // an uploaded file takes precedence over the message text
+        const message = values.file
+          ? Buffer.from(values.file, "base64")
+          : Buffer.from(values.message);
+        const chunks = Math.ceil(
+          message.length / HEDERA_TOPIC_MESSAGE_CHUNK_SIZE
+        );
+        if (!chunks) {
+          throw new Error("Message is empty");
+        }
+        if (chunks > HEDERA_TOPIC_MESSAGE_MAX_CHUNKS) {
+          throw new Error(
+            `Message needs ${chunks} chunks, at most ${HEDERA_TOPIC_MESSAGE_MAX_CHUNKS} are allowed`
+          );
+        }
+
         const payerAccountId = new AccountId(Number(address.split(".").pop()));
         const transactionId = TransactionId.generate(payerAccountId);
-        const topicId = await createOrRestoreHederaTopicId();
 
+        // freezing splits the message into one transaction per chunk, all
+        // sharing the initial transaction id. They go to the wallet in a
+        // single hedera_signAndExecuteTransaction request, which relies on
+        // the wallet executing every chunk and not only the first one
         const transaction = new TopicMessageSubmitTransaction()
-          .setTopicId(topicId)
-          .setMessage(
-            `Hello from hedera-walletconnect-dapp at ${new Date().toISOString()}`
-          )
+          .setTopicId(values.topicId)
+          .setMessage(message)
+          .setChunkSize(HEDERA_TOPIC_MESSAGE_CHUNK_SIZE)
+          .setMaxChunks(chunks)
           .setTransactionId(transactionId);
 
-        const params = HederaParamsFactory.buildTransactionPayload(
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
           RequestType.ConsensusSubmitMessage,
           transaction
         );
+        const receipt = await getHederaTransactionReceipt(transactionId);
 
-        const payload: HederaSessionRequestParams = {
-          topic: session!.topic,
-          chainId,
-          request: {
-            method,
-            params,
-          },
-        };
-
-        const result = await client!.request(payload);
+        const topicMessage = await apiGetHederaTopicMessage(
+          values.topicId,
+          transactionId,
+          chunks
+        );
 
         return {
           method,
           address,
-          valid: true,
-          result: JSON.stringify(result),
+          valid: Buffer.from(topicMessage.message).equals(message),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            bytes: message.length,
+            chunks: topicMessage.chunks,
+          },
         };
       }
     ),
@@ -510,36 +886,245 @@ export function JsonRpcContextProvider({
         address: string
       ): Promise<IFormattedRpcResponse> => {
         const method =
-          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION;
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION;
 
         const transaction = await _buildTestTransferTransaction(address);
 
         const params = HederaParamsFactory.buildTransactionPayload(
           RequestType.CryptoTransfer,
-          transaction
+          transaction,
+          await getHederaNodeAccountIds(chainId)
         );
 
-        const payload: HederaSessionRequestParams = {
-          topic: session!.topic,
+        const result = await _requestHedera(chainId, method, params);
+        const decoded = Transaction.fromBytes(
+          Buffer.from(result.transaction.bytes, "base64")
+        );
+
+        // the wallet should only have added signatures to what was sent
+        const differences = compareHederaTransactions(transaction, decoded);
+        const signers = getHederaTransactionSigners(decoded);
+        const accountKey = await apiGetHederaAccountKey(address);
+        const isSigned = isHederaKeySatisfied(accountKey, signers);
+
+        return {
+          method,
+          address,
+          valid: !Object.keys(differences).length && isSigned,
+          warnings: [
+            ...Object.entries(differences).map(
+              ([field, { sent, returned }]) =>
+                `The wallet changed ${field} from "${sent}" to "${returned}"`
+            ),
+            ...(isSigned
+              ? []
+              : [`The returned transaction is not signed by ${address}`]),
+          ],
+          result: {
+            ...result,
+            decoded: describeHederaTransaction(decoded),
+            differences,
+            signers: signers.map((signer) => signer.toString()),
+          },
+        };
+      }
+    ),
+    testSignCryptoTransfer: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string
+      ): Promise<IFormattedRpcResponse> => {
+        const method = DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_TRANSACTION;
+
+        const transaction = await _buildTestTransferTransaction(address);
+        const [nodeAccountId] = await getHederaNodeAccountIds(chainId);
+
+        const params = HederaParamsFactory.buildSignTransactionPayload(
+          RequestType.CryptoTransfer,
+          transaction,
+          nodeAccountId
+        );
+
+        const result = await _requestHedera(chainId, method, params);
+
+        // anyone holding the signed bytes can now submit the transaction
+        const signers = addHederaSignatures(transaction, result);
+        const accountKey = await apiGetHederaAccountKey(address);
+
+        return {
+          method,
+          address,
+          valid: isHederaKeySatisfied(accountKey, signers),
+          result: {
+            ...result,
+            signers: signers.map((signer) => signer.toString()),
+            accountKey: accountKey.toString(),
+            signedTransaction: Buffer.from(transaction.toBytes()).toString(
+              "base64"
+            ),
+          },
+        };
+      }
+    ),
+    testSignReturnAndExecuteCryptoTransfer: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_EXECUTE_TRANSACTION;
+
+        setProgress({ step: 1, total: 2, label: "Sign transaction" });
+        const transaction = await _signAndReturnHederaTransaction(
           chainId,
-          request: {
+          RequestType.CryptoTransfer,
+          await _buildTestTransferTransaction(address)
+        );
+
+        const description = describeHederaTransaction(transaction);
+        const summary = Object.entries(description)
+          .map(([key, value]) => `${key}: ${value}`)
+          .join("\n");
+        if (!window.confirm(`Submit this signed transaction?\n\n${summary}`)) {
+          throw new Error("Signed transaction was not submitted");
+        }
+
+        let result: HederaSignAndExecuteTransactionResult;
+        if (values.submitVia === "local client") {
+          setProgress({ step: 2, total: 2, label: "Submit with local client" });
+          result = await executeHederaTransaction(transaction);
+        } else {
+          setProgress({ step: 2, total: 2, label: "Submit with wallet" });
+          result = await _requestHedera(
+            chainId,
             method,
-            params,
+            HederaParamsFactory.buildExecuteTransactionPayload(
+              RequestType.CryptoTransfer,
+              transaction
+            )
+          );
+        }
+        const receipt = await getHederaTransactionReceipt(
+          transaction.transactionId!
+        );
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(
+            result,
+            transaction.transactionId!,
+            receipt
+          ),
+          result: {
+            ...result,
+            transaction: description,
+            status: receipt.status.toString(),
           },
         };
+      }
+    ),
+    testSignAndExecuteAccountInfoQuery: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY;
+
+        const query = new AccountInfoQuery().setAccountId(values.accountId);
+        const { raw, output } = await _signAndExecuteHederaQuery(
+          chainId,
+          query
+        );
+        const accountInfo = output as AccountInfo;
+
+        return {
+          method,
+          address,
+          valid: accountInfo.accountId.toString() === values.accountId,
+          result: { raw, decoded: accountInfo.toJSON() },
+        };
+      }
+    ),
+    testSignAndExecuteTokenInfoQuery: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY;
 
-        const result = await client!.request(payload);
+        const query = new TokenInfoQuery().setTokenId(values.tokenId);
+        const { raw, output } = await _signAndExecuteHederaQuery(
+          chainId,
+          query
+        );
+        const tokenInfo = output as TokenInfo;
 
         return {
           method,
           address,
-          valid: true,
-          result: JSON.stringify({
-            raw: result,
-            decoded: Transaction.fromBytes(
-              Buffer.from((result as any).transaction.bytes, "base64")
-            ),
-          }),
+          valid: tokenInfo.tokenId.toString() === values.tokenId,
+          result: {
+            raw,
+            decoded: {
+              tokenId: tokenInfo.tokenId.toString(),
+              name: tokenInfo.name,
+              symbol: tokenInfo.symbol,
+              decimals: tokenInfo.decimals,
+              totalSupply: tokenInfo.totalSupply.toString(),
+              treasuryAccountId: tokenInfo.treasuryAccountId?.toString(),
+              tokenType: tokenInfo.tokenType?.toString(),
+            },
+          },
+        };
+      }
+    ),
+    testSignAndExecuteContractCallQuery: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY;
+
+        const query = new ContractCallQuery()
+          .setContractId(values.contractId)
+          .setGas(Number(values.gas))
+          .setFunctionParameters(
+            encodeHederaContractCall(
+              values.abi,
+              values.functionName,
+              values.args
+            )
+          );
+        const { raw, output } = await _signAndExecuteHederaQuery(
+          chainId,
+          query
+        );
+        const functionResult = output as ContractFunctionResult;
+
+        return {
+          method,
+          address,
+          valid: !functionResult.errorMessage,
+          result: {
+            raw,
+            errorMessage: functionResult.errorMessage,
+            gasUsed: functionResult.gasUsed.toString(),
+            decoded: functionResult.errorMessage
+              ? undefined
+              : decodeHederaContractResult(
+                  values.abi,
+                  values.functionName,
+                  utils.hexlify(functionResult.asBytes())
+                ),
+          },
         };
       }
     ),
@@ -550,26 +1135,1311 @@ export function JsonRpcContextProvider({
       ): Promise<IFormattedRpcResponse> => {
         const method = DEFAULT_HEDERA_METHODS.HEDERA_SIGN_MESSAGE;
 
-        const params = HederaParamsFactory.buildSignMessagePayload(
-          "Hello from hedera-walletconnect-dapp at " + new Date().toISOString()
+        const message =
+          "Hello from hedera-walletconnect-dapp at " + new Date().toISOString();
+        const params = HederaParamsFactory.buildSignMessagePayload(message);
+
+        const result = await _requestHedera(chainId, method, params);
+
+        // signatures are over the prefixed message that was sent to the wallet
+        const signers = verifyHederaMessageSignatures(message, result);
+        const accountKey = await apiGetHederaAccountKey(address);
+
+        return {
+          method,
+          address,
+          valid: isHederaKeySatisfied(accountKey, signers),
+          result: {
+            ...result,
+            message,
+            messageHash: hashHederaMessage(message),
+            signers: signers.map((signer) => signer.toString()),
+            accountKey: accountKey.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTokenCreate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        // the connected account is the treasury and can later mint/burn the token
+        const publicKey = await apiGetHederaAccountPublicKey(address);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenCreateTransaction()
+          .setTokenName(values.name)
+          .setTokenSymbol(values.symbol)
+          .setDecimals(Number(values.decimals))
+          .setInitialSupply(Long.fromString(values.initialSupply.trim()))
+          .setTreasuryAccountId(address)
+          .setAdminKey(publicKey)
+          .setSupplyKey(publicKey)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenCreate,
+          transaction
         );
+        const receipt = await getHederaTransactionReceipt(transactionId);
 
-        const payload: HederaSessionRequestParams = {
-          topic: session!.topic,
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            tokenId: receipt.tokenId?.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTokenMint: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = _buildTokenMintTransaction(
+          values.tokenId,
+          values.amount
+        ).setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
           chainId,
-          request: {
-            method,
-            params,
+          RequestType.TokenMint,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            totalSupply: receipt.totalSupply?.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTokenBurn: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenBurnTransaction()
+          .setTokenId(values.tokenId)
+          .setAmount(Long.fromString(values.amount.trim()))
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenBurn,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            totalSupply: receipt.totalSupply?.toString(),
           },
         };
+      }
+    ),
+    testSignAndExecuteTokenAssociate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
 
-        const result = await client!.request(payload);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenAssociateTransaction()
+          .setAccountId(address)
+          .setTokenIds(_parseList(values.tokenIds))
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenAssociateToAccount,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
 
         return {
           method,
           address,
-          valid: true,
-          result: JSON.stringify(result),
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTokenDissociate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenDissociateTransaction()
+          .setAccountId(address)
+          .setTokenIds(_parseList(values.tokenIds))
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenDissociateFromAccount,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTokenTransfer: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { tokenId, receiverId } = values;
+        const {
+          transaction,
+          units: amount,
+          decimals,
+          symbol,
+        } = await _buildTokenTransferTransaction(
+          address,
+          receiverId,
+          tokenId,
+          values.amount
+        );
+
+        await _ensureHederaTokenAssociation(chainId, receiverId, tokenId);
+
+        const transactionId = TransactionId.generate(address);
+        transaction.setTransactionId(transactionId);
+
+        // optionally move HBAR in the same transaction
+        const hbarAmount = values.hbarAmount?.trim();
+        if (hbarAmount) {
+          const tinybars = Long.fromString(
+            toWad(hbarAmount, HBAR_DECIMALS).toString()
+          );
+          transaction
+            .addHbarTransfer(address, Hbar.fromTinybars(tinybars.negate()))
+            .addHbarTransfer(receiverId, Hbar.fromTinybars(tinybars));
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.CryptoTransfer,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            amount: `${fromWad(amount.toString(), decimals)} ${symbol}`,
+            ...(hbarAmount && {
+              hbarAmount: Hbar.fromString(hbarAmount).toString(),
+            }),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteNftCreate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const publicKey = await apiGetHederaAccountPublicKey(address);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenCreateTransaction()
+          .setTokenName(values.name)
+          .setTokenSymbol(values.symbol)
+          .setTokenType(TokenType.NonFungibleUnique)
+          .setDecimals(0)
+          .setInitialSupply(0)
+          .setTreasuryAccountId(address)
+          .setAdminKey(publicKey)
+          .setSupplyKey(publicKey)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenCreate,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            tokenId: receipt.tokenId?.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteNftMint: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const metadata = encodeHederaNftMetadata(values.metadata);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TokenMintTransaction()
+          .setTokenId(values.tokenId)
+          .setMetadata(Array(Number(values.count)).fill(metadata))
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.TokenMint,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+        await refreshBalances();
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            serials: receipt.serials.map((serial) => serial.toString()),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteNftTransfer: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { tokenId, receiverId } = values;
+        const nftId = new NftId(
+          TokenId.fromString(tokenId),
+          Number(values.serialNumber)
+        );
+
+        await _ensureHederaTokenAssociation(chainId, receiverId, tokenId);
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TransferTransaction()
+          .addNftTransfer(nftId, address, receiverId)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.CryptoTransfer,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+        await refreshBalances();
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            nftId: nftId.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteContractCall: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { contractId, abi, functionName } = values;
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new ContractExecuteTransaction()
+          .setContractId(contractId)
+          .setGas(Number(values.gas))
+          .setFunctionParameters(
+            encodeHederaContractCall(abi, functionName, values.args)
+          )
+          .setTransactionId(transactionId);
+
+        if (values.payableAmount?.trim()) {
+          transaction.setPayableAmount(Hbar.fromString(values.payableAmount));
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ContractCall,
+          transaction
+        );
+        const contractResult = await apiGetHederaContractResult(transactionId);
+
+        return {
+          method,
+          address,
+          // the receipt query throws on reverts, so the mirror node result
+          // tells whether the call succeeded
+          valid:
+            result.transactionId === transactionId.toString() &&
+            !contractResult.errorMessage,
+          result: {
+            ...result,
+            status: contractResult.result,
+            ...(contractResult.errorMessage
+              ? { error: contractResult.errorMessage }
+              : {
+                  returnValue: decodeHederaContractResult(
+                    abi,
+                    functionName,
+                    contractResult.callResult
+                  ),
+                }),
+            logs: decodeHederaContractLogs(abi, contractResult.logs),
+          },
+        };
+      }
+    ),
+    testDeployContract: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const bytecode = values.bytecode.trim().replace(/^0x/, "");
+        if (!bytecode) throw new Error("Contract bytecode is required");
+        const chunks = chunkHederaFileContents(bytecode);
+        const total = chunks.length + 1;
+        const constructorParameters = encodeHederaContractConstructor(
+          values.abi,
+          values.args
+        );
+        const publicKey = await apiGetHederaAccountPublicKey(address);
+
+        // resume a previous deployment of the same bytecode, if any
+        const deployment = restoreHederaContractDeployment(
+          chainId,
+          address,
+          bytecode
+        );
+
+        const executeStep = async (
+          step: number,
+          label: string,
+          type: RequestType,
+          transaction: Transaction
+        ) => {
+          setProgress({ step, total, label });
+          const transactionId = TransactionId.generate(address);
+          transaction.setTransactionId(transactionId);
+          try {
+            await _signAndExecuteHederaTransaction(chainId, type, transaction);
+            return await getHederaTransactionReceipt(transactionId);
+          } catch (err: any) {
+            const status = getHederaErrorStatus(err);
+            if (status && HEDERA_MISSING_FILE_STATUSES.includes(status)) {
+              // the bytecode file was deleted or expired, nothing to resume
+              clearHederaContractDeployment(
+                chainId,
+                address,
+                deployment.bytecodeHash
+              );
+              throw new Error(
+                `Step ${step} of ${total} (${label}) failed: ${
+                  err?.message ?? err
+                }. The bytecode file ${
+                  deployment.fileId
+                } no longer exists, submit the bytecode again to start over.`,
+                { cause: err }
+              );
+            }
+            throw new Error(
+              `Step ${step} of ${total} (${label}) failed: ${
+                err?.message ?? err
+              }. Submit the same bytecode again to resume from this step.`,
+              { cause: err }
+            );
+          }
+        };
+
+        if (!deployment.fileId) {
+          const fileCreate = new FileCreateTransaction()
+            .setKeys([publicKey])
+            .setContents(chunks[0]);
+          const receipt = await executeStep(
+            1,
+            "FileCreate",
+            RequestType.FileCreate,
+            fileCreate
+          );
+          deployment.fileId = receipt.fileId!.toString();
+          deployment.fileExpiresAt = fileCreate
+            .expirationTime!.toDate()
+            .getTime();
+          saveHederaContractDeployment(chainId, address, deployment);
+        }
+
+        for (let i = deployment.appendedChunks + 1; i < chunks.length; i++) {
+          await executeStep(
+            i + 1,
+            `FileAppend (chunk ${i + 1} of ${chunks.length})`,
+            RequestType.FileAppend,
+            new FileAppendTransaction()
+              .setFileId(deployment.fileId)
+              .setContents(chunks[i])
+          );
+          deployment.appendedChunks = i;
+          saveHederaContractDeployment(chainId, address, deployment);
+        }
+
+        const receipt = await executeStep(
+          total,
+          "ContractCreate",
+          RequestType.ContractCreate,
+          new ContractCreateTransaction()
+            .setBytecodeFileId(deployment.fileId)
+            .setGas(Number(values.gas))
+            .setConstructorParameters(constructorParameters)
+            .setAdminKey(publicKey)
+        );
+        clearHederaContractDeployment(
+          chainId,
+          address,
+          deployment.bytecodeHash
+        );
+
+        return {
+          method,
+          address,
+          valid: receipt.status === Status.Success && !!receipt.contractId,
+          result: {
+            status: receipt.status.toString(),
+            contractId: receipt.contractId?.toString(),
+            bytecodeFileId: deployment.fileId,
+            requests: total,
+          },
+        };
+      }
+    ),
+    testSignAndExecuteScheduleCreate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { senderId, receiverId, tokenId, amount, memo } = values;
+
+        let scheduledTransaction: Transaction;
+        switch (values.transaction) {
+          case HEDERA_SCHEDULABLE_TRANSACTIONS.HBAR_TRANSFER:
+            scheduledTransaction = _buildHbarTransferTransaction(
+              senderId,
+              receiverId,
+              Hbar.fromString(amount)
+            );
+            break;
+          case HEDERA_SCHEDULABLE_TRANSACTIONS.TOKEN_TRANSFER:
+            scheduledTransaction = (
+              await _buildTokenTransferTransaction(
+                senderId,
+                receiverId,
+                tokenId,
+                amount
+              )
+            ).transaction;
+            break;
+          case HEDERA_SCHEDULABLE_TRANSACTIONS.TOKEN_MINT:
+            scheduledTransaction = _buildTokenMintTransaction(tokenId, amount);
+            break;
+          default:
+            throw new Error(
+              `Unknown transaction to schedule: ${values.transaction}`
+            );
+        }
+
+        const publicKey = await apiGetHederaAccountPublicKey(address);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = scheduleHederaTransaction(scheduledTransaction, {
+          memo,
+          adminKey: publicKey,
+        }).setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ScheduleCreate,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+        const schedule = await apiGetHederaSchedule(
+          receipt.scheduleId!.toString()
+        );
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            scheduledTransactionId: receipt.scheduledTransactionId?.toString(),
+            schedule,
+          },
+        };
+      }
+    ),
+    testSignAndExecuteScheduleSign: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { scheduleId } = values;
+        const { signatures } = await apiGetHederaSchedule(scheduleId);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new ScheduleSignTransaction()
+          .setScheduleId(scheduleId)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ScheduleSign,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+        const schedule = await apiGetHederaSchedule(
+          scheduleId,
+          signatures.length + 1
+        );
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            schedule,
+          },
+        };
+      }
+    ),
+    testGetScheduleInfo: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const schedule = await apiGetHederaSchedule(values.scheduleId);
+
+        return {
+          method: "mirror: /schedules/" + values.scheduleId,
+          address,
+          valid: !schedule.deleted,
+          result: schedule,
+        };
+      }
+    ),
+    testSignAndExecuteAccountUpdate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { memo, stakedNodeId, stakedAccountId } = values;
+        const transactionId = TransactionId.generate(address);
+
+        const accountUpdate = new AccountUpdateTransaction()
+          .setAccountId(address)
+          .setAccountMemo(memo)
+          .setMaxAutomaticTokenAssociations(
+            Number(values.maxAutomaticTokenAssociations)
+          )
+          .setDeclineStakingReward(values.declineStakingReward === "true")
+          .setTransactionId(transactionId);
+
+        // an account stakes to either a node or another account, not both,
+        // and clearing both fields stops staking
+        if (stakedAccountId.trim()) {
+          accountUpdate.setStakedAccountId(stakedAccountId.trim());
+        } else if (stakedNodeId.trim()) {
+          accountUpdate.setStakedNodeId(Number(stakedNodeId));
+        } else {
+          accountUpdate.clearStakedAccountId().clearStakedNodeId();
+        }
+
+        const newPublicKey = values.newPublicKey.trim();
+        const newKey = newPublicKey
+          ? PublicKey.fromString(newPublicKey)
+          : undefined;
+        if (newKey) {
+          accountUpdate.setKey(newKey);
+        }
+
+        /**
+         * Changing the key requires signatures from both the old and new keys.
+         * The wallet only holds the current key, so the new key's signature is
+         * pasted by whoever holds it, then the wallet signs and executes.
+         */
+        if (newKey) {
+          const [nodeAccountId] = await getHederaNodeAccountIds(chainId);
+          accountUpdate.setNodeAccountIds([nodeAccountId]).freeze();
+          const bodyBytes = getHederaTransactionBodyBytes(accountUpdate);
+
+          setProgress({
+            step: 1,
+            total: 2,
+            label: `Sign the transaction body with the new key ${newPublicKey}`,
+          });
+          const signature = window
+            .prompt(
+              `Sign these transaction body bytes (hex) with the private key of ${newPublicKey} within 2 minutes, and paste the hex encoded signature`,
+              Buffer.from(bodyBytes).toString("hex")
+            )
+            ?.trim();
+          if (!signature) {
+            throw new Error(`The new key ${newPublicKey} did not sign`);
+          }
+          const signatureBytes = Buffer.from(signature, "hex");
+          if (!newKey.verify(bodyBytes, signatureBytes)) {
+            throw new Error(
+              `The pasted signature is not a signature of the new key ${newPublicKey}`
+            );
+          }
+          accountUpdate.addSignature(newKey, signatureBytes);
+
+          setProgress({
+            step: 2,
+            total: 2,
+            label: `Sign with the current key of ${address} in the wallet`,
+          });
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.CryptoUpdate,
+          accountUpdate
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testGetAllowances: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string
+      ): Promise<IFormattedRpcResponse> => {
+        const allowances = await apiGetHederaAccountAllowances(address);
+
+        return {
+          method: `mirror: /accounts/${address}/allowances`,
+          address,
+          valid: true,
+          result: allowances,
+        };
+      }
+    ),
+    testSignAndExecuteAllowanceApprove: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { type, tokenId, spenderId } = values;
+        const transactionId = TransactionId.generate(address);
+        const transaction =
+          new AccountAllowanceApproveTransaction().setTransactionId(
+            transactionId
+          );
+
+        switch (type) {
+          case "hbar":
+            transaction.approveHbarAllowance(
+              address,
+              spenderId,
+              Hbar.fromString(values.amount)
+            );
+            break;
+          case "token": {
+            const { decimals } = await apiGetHederaTokenInfo(tokenId);
+            transaction.approveTokenAllowance(
+              tokenId,
+              address,
+              spenderId,
+              Long.fromString(toWad(values.amount, decimals).toString())
+            );
+            break;
+          }
+          case "nft": {
+            // without serial numbers the spender is approved for every serial
+            const serials = _parseList(values.serials);
+            if (serials.length) {
+              serials.forEach((serial) =>
+                transaction.approveTokenNftAllowance(
+                  new NftId(TokenId.fromString(tokenId), Number(serial)),
+                  address,
+                  spenderId
+                )
+              );
+            } else {
+              transaction.approveTokenNftAllowanceAllSerials(
+                tokenId,
+                address,
+                spenderId
+              );
+            }
+            break;
+          }
+          default:
+            throw new Error(`Unknown allowance type: ${type}`);
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.CryptoApproveAllowance,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteAllowanceRevoke: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { type, tokenId, spenderId } = values;
+        const serials = _parseList(values.serials);
+        const transactionId = TransactionId.generate(address);
+
+        /**
+         * AccountAllowanceDelete only removes NFT serial allowances. HBAR and
+         * token allowances, and NFT approvals for all serials, are revoked by
+         * approving them again with nothing allowed.
+         */
+        let requestType: RequestType = RequestType.CryptoApproveAllowance;
+        let transaction: Transaction;
+        switch (type) {
+          case "hbar":
+            transaction = new AccountAllowanceApproveTransaction()
+              .approveHbarAllowance(address, spenderId, 0)
+              .setTransactionId(transactionId);
+            break;
+          case "token":
+            transaction = new AccountAllowanceApproveTransaction()
+              .approveTokenAllowance(tokenId, address, spenderId, 0)
+              .setTransactionId(transactionId);
+            break;
+          case "nft":
+            if (serials.length) {
+              const allowanceDelete = new AccountAllowanceDeleteTransaction();
+              serials.forEach((serial) =>
+                allowanceDelete.deleteAllTokenNftAllowances(
+                  new NftId(TokenId.fromString(tokenId), Number(serial)),
+                  address
+                )
+              );
+              transaction = allowanceDelete.setTransactionId(transactionId);
+              requestType = RequestType.CryptoDeleteAllowance;
+            } else {
+              transaction = new AccountAllowanceApproveTransaction()
+                .deleteTokenNftAllowanceAllSerials(tokenId, address, spenderId)
+                .setTransactionId(transactionId);
+            }
+            break;
+          default:
+            throw new Error(`Unknown allowance type: ${type}`);
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          requestType,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteApprovedTransfer: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const { ownerId, receiverId } = values;
+        const amount = Hbar.fromString(values.amount);
+
+        // the connected account is the spender, so it pays for the transaction
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TransferTransaction()
+          .addApprovedHbarTransfer(ownerId, amount.negated())
+          .addHbarTransfer(receiverId, amount)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.CryptoTransfer,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testGetTopics: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string
+      ): Promise<IFormattedRpcResponse> => {
+        const topics = await apiGetHederaAccountTopics(address);
+
+        return {
+          method: "mirror: topics created by " + address,
+          address,
+          valid: true,
+          result: { topics },
+        };
+      }
+    ),
+    testSignAndExecuteTopicCreate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const publicKey = await apiGetHederaAccountPublicKey(address);
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TopicCreateTransaction()
+          .setTopicMemo(values.memo)
+          .setAutoRenewAccountId(address)
+          .setTransactionId(transactionId);
+
+        // without an admin key the topic can never be updated or deleted
+        if (values.adminKey === "account") {
+          transaction.setAdminKey(publicKey);
+        }
+        // without a submit key anyone can submit messages to the topic
+        if (values.submitKey === "account") {
+          transaction.setSubmitKey(publicKey);
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ConsensusCreateTopic,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+            topicId: receipt.topicId?.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTopicUpdate: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TopicUpdateTransaction()
+          .setTopicId(values.topicId)
+          .setTransactionId(transactionId);
+
+        if (values.memo) {
+          transaction.setTopicMemo(values.memo);
+        }
+
+        switch (values.submitKey) {
+          case "account":
+            transaction.setSubmitKey(
+              await apiGetHederaAccountPublicKey(address)
+            );
+            break;
+          case "none":
+            transaction.clearSubmitKey();
+            break;
+          default:
+            break;
+        }
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ConsensusUpdateTopic,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteTopicDelete: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION;
+
+        const transactionId = TransactionId.generate(address);
+
+        const transaction = new TopicDeleteTransaction()
+          .setTopicId(values.topicId)
+          .setTransactionId(transactionId);
+
+        const result = await _signAndExecuteHederaTransaction(
+          chainId,
+          RequestType.ConsensusDeleteTopic,
+          transaction
+        );
+        const receipt = await getHederaTransactionReceipt(transactionId);
+
+        return {
+          method,
+          address,
+          valid: isHederaTransactionSuccessful(result, transactionId, receipt),
+          result: {
+            ...result,
+            status: receipt.status.toString(),
+          },
+        };
+      }
+    ),
+    testSignAndExecuteBatch: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_BATCH;
+
+        const receiverIds = _parseList(values.receiverIds);
+        const amount = new Hbar(Number(values.amount));
+        // consecutive valid starts, as generated ids could collide
+        const { validStart } = TransactionId.generate(address);
+        const nextTransactionId = (index: number) =>
+          TransactionId.withValidStart(
+            AccountId.fromString(address),
+            validStart!.plusNanos(index)
+          );
+
+        const items: { type: RequestType; transaction: Transaction }[] = [];
+        if (values.tokenId) {
+          items.push({
+            type: RequestType.TokenAssociateToAccount,
+            transaction: new TokenAssociateTransaction()
+              .setAccountId(address)
+              .setTokenIds([values.tokenId])
+              .setTransactionId(nextTransactionId(items.length)),
+          });
+        }
+        receiverIds.forEach((receiverId) =>
+          items.push({
+            type: RequestType.CryptoTransfer,
+            transaction: new TransferTransaction()
+              .addHbarTransfer(address, amount.negated())
+              .addHbarTransfer(receiverId, amount)
+              .setTransactionId(nextTransactionId(items.length)),
+          })
+        );
+        if (!items.length) {
+          throw new Error("Batch has no transactions");
+        }
+
+        const params = HederaParamsFactory.buildBatchTransactionPayload(
+          items,
+          await getHederaNodeAccountIds(chainId)
+        );
+
+        const { results } = await _requestHedera(chainId, method, params);
+
+        // the wallet's outcome is confirmed with the receipt of each transaction
+        const formattedItems = await Promise.all(
+          items.map(async ({ type, transaction }, index) => {
+            const label = `${index + 1}. ${type.toString()}`;
+            const itemResult = results[index];
+            if (!itemResult?.success) {
+              return {
+                label,
+                success: false,
+                detail: itemResult?.error ?? "Not executed",
+              };
+            }
+            if (
+              itemResult.transactionId !== transaction.transactionId!.toString()
+            ) {
+              return {
+                label,
+                success: false,
+                detail: `Wallet reported ${itemResult.transactionId} instead`,
+              };
+            }
+            try {
+              const receipt = await getHederaTransactionReceipt(
+                transaction.transactionId!
+              );
+              return {
+                label,
+                success: true,
+                detail: receipt.status.toString(),
+              };
+            } catch (error: any) {
+              return { label, success: false, detail: error.message };
+            }
+          })
+        );
+
+        return {
+          method,
+          address,
+          valid: formattedItems.every(({ success }) => success),
+          result: { raw: results },
+          items: formattedItems,
+        };
+      }
+    ),
+    testSelectNodes: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ): Promise<IFormattedRpcResponse> => {
+        const nodes = await apiGetHederaNetworkNodes();
+        const nodeAccountIds = _parseList(values.nodeAccountIds);
+
+        const unknown = nodeAccountIds.filter(
+          (nodeAccountId) =>
+            !nodes.some((node) => node.nodeAccountId === nodeAccountId)
+        );
+        if (unknown.length) {
+          throw new Error(
+            `Not in the address book of ${chainId}: ${unknown.join(", ")}`
+          );
+        }
+        // an empty selection falls back to every node of the address book
+        saveHederaNodeAccountIds(
+          chainId,
+          nodeAccountIds.length
+            ? nodeAccountIds
+            : nodes.map(({ nodeAccountId }) => nodeAccountId)
+        );
+
+        return {
+          method: "nodes selected for " + chainId,
+          address,
+          valid: true,
+          result: {
+            nodes: restoreHederaNodeAccountIds(chainId),
+          },
+        };
+      }
+    ),
+    testGetNodeAddresses: _createJsonRpcRequestHandler(
+      async (
+        chainId: string,
+        address: string
+      ): Promise<IFormattedRpcResponse> => {
+        const method =
+          DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_GET_NODE_ADDRESSES;
+
+        const result = await _requestHedera(chainId, method, {});
+
+        // wallets report the network either bare or as a chain id
+        const walletChainId = `hedera:${result.network.split(":").pop()}`;
+        if (walletChainId !== chainId) {
+          return {
+            method,
+            address,
+            valid: false,
+            result,
+            warnings: [
+              `The wallet is connected to ${walletChainId} but the session uses ${chainId}, transactions would fail`,
+            ],
+          };
+        }
+
+        // only freeze for nodes that are both in the address book and
+        // reachable by the wallet
+        const nodes = await apiGetHederaNetworkNodes();
+        const reachable = result.nodes.filter((nodeAccountId) =>
+          nodes.some((node) => node.nodeAccountId === nodeAccountId)
+        );
+        if (reachable.length) {
+          saveHederaNodeAccountIds(chainId, reachable);
+        }
+
+        return {
+          method,
+          address,
+          valid: reachable.length > 0,
+          result: {
+            ...result,
+            nodes: restoreHederaNodeAccountIds(chainId),
+            unknownNodes: result.nodes.filter(
+              (nodeAccountId) => !reachable.includes(nodeAccountId)
+            ),
+          },
         };
       }
     ),
@@ -582,6 +2452,8 @@ export function JsonRpcContextProvider({
         ethereumRpc,
         hederaRpc,
         rpcResult: result,
+        rpcProgress: progress,
+        rpcRetry: retry,
         isRpcRequestPending: pending,
         isTestnet,
         setIsTestnet,
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance } from "axios";
-import { AssetData } from "./types";
-import { apiGetHederaAccountBalance } from "./hedera";
+import { AssetData, NftData } from "./types";
+import { apiGetHederaAccountBalance, apiGetHederaAccountNfts } from "./hedera";
 
 export const rpcProvidersByChainId: Record<number, any> = {
   1: {
@@ -67,6 +67,17 @@ export async function apiGetAccountBalance(
   return { balance, ...token };
 }
 
+export async function apiGetAccountNfts(
+  address: string,
+  chainId: string
+): Promise<NftData[]> {
+  const namespace = chainId.split(":")[0];
+  if (namespace === "hedera") {
+    return apiGetHederaAccountNfts(address);
+  }
+  return [];
+}
+
 export const apiGetAccountNonce = async (
   address: string,
   chainId: string
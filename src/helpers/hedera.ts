@@ -1,15 +1,41 @@
 import axios, { AxiosInstance } from "axios";
+import { utils } from "ethers";
 import { EngineTypes } from "@walletconnect/types";
+import { getSdkError } from "@walletconnect/utils";
+import { proto } from "@hashgraph/proto";
 import {
   AccountCreateTransaction,
   AccountId,
+  AccountInfo,
+  AccountInfoQuery,
   Client,
+  ContractCallQuery,
+  ContractFunctionResult,
   Hbar,
+  Key,
+  KeyList,
   PrivateKey,
+  PublicKey,
+  PrecheckStatusError,
+  Query,
+  ReceiptStatusError,
   RequestType,
-  TopicCreateTransaction,
+  ScheduleCreateTransaction,
+  Status,
+  StatusError,
   Transaction,
+  TransactionId,
+  TransactionReceipt,
+  TokenInfo,
+  TokenInfoQuery,
+  TransactionReceiptQuery,
+  TransferTransaction,
 } from "@hashgraph/sdk";
+import {
+  DEFAULT_HEDERA_METHODS,
+  DEFAULT_HEDERA_OPTIONAL_METHODS,
+} from "../constants";
+import { NftData } from "./types";
 
 type TypedRequestParams<T> = Omit<EngineTypes.RequestParams, "request"> & {
   request: Omit<EngineTypes.RequestParams["request"], "params"> & {
@@ -28,20 +54,226 @@ export type HederaSignAndExecuteTransactionParams = {
   };
 };
 
+/**
+ * Response of the transaction once submitted by the wallet, i.e.
+ * `TransactionResponse.toJSON()`
+ */
+export type HederaSignAndExecuteTransactionResult = {
+  nodeId: string;
+  transactionHash: string;
+  transactionId: string;
+};
+
+export type HederaSignAndReturnTransactionResult =
+  HederaSignAndExecuteTransactionParams;
+
+export type HederaSignTransactionParams = HederaSignAndExecuteTransactionParams;
+
+/**
+ * Hex encoded signatures by DER encoded public key of the signer, e.g.
+ * `{ "302a300506032b6570032100...": "<signature>" }`
+ */
+export type HederaSignTransactionResult = {
+  signatureMap: Record<string, string>;
+};
+
+/**
+ * Fully signed transaction that the wallet only submits to the network
+ */
+export type HederaExecuteTransactionParams =
+  HederaSignAndExecuteTransactionParams;
+
+/**
+ * `query` is a serialized `Query` without payment, which the wallet attaches
+ */
+export type HederaSignAndExecuteQueryParams = {
+  query: string;
+};
+
+/**
+ * `response` is the serialized output of the query, e.g. `AccountInfo.toBytes()`
+ * or a `proto.ContractFunctionResult` for a `ContractCallQuery`
+ */
+export type HederaSignAndExecuteQueryResult = {
+  response: string;
+};
+
+export type HederaGetNodeAddressesParams = Record<string, never>;
+
+/**
+ * Network the wallet is connected to, e.g. `testnet`, and the node account
+ * ids it can submit to
+ */
+export type HederaGetNodeAddressesResult = {
+  network: string;
+  nodes: string[];
+};
+
 export type HederaSignMessageParams = {
   message: string;
 };
 
+/**
+ * Hex encoded signatures of the message by DER encoded public key of the signer
+ */
+export type HederaSignMessageResult = {
+  signatureMap: Record<string, string>;
+};
+
+/**
+ * Frozen transactions that the wallet executes in order after a single approval.
+ */
+export type HederaSignAndExecuteBatchParams = {
+  transactions: HederaSignAndExecuteTransactionParams["transaction"][];
+};
+
+/**
+ * Result of each transaction of a batch, in the order of the request. Once a
+ * transaction fails the remaining ones are not executed and are unsuccessful.
+ */
+export type HederaBatchItemResult = {
+  transactionId: string;
+  success: boolean;
+  response?: unknown;
+  error?: string;
+};
+
+export type HederaSignAndExecuteBatchResult = {
+  results: HederaBatchItemResult[];
+};
+
 export type HederaSessionRequestParams = TypedRequestParams<
-  HederaSignAndExecuteTransactionParams | HederaSignMessageParams
+  | HederaSignAndExecuteTransactionParams
+  | HederaSignAndExecuteBatchParams
+  | HederaExecuteTransactionParams
+  | HederaSignAndExecuteQueryParams
+  | HederaGetNodeAddressesParams
+  | HederaSignMessageParams
 >;
 
+export type HederaMethod =
+  | DEFAULT_HEDERA_METHODS
+  | DEFAULT_HEDERA_OPTIONAL_METHODS;
+
+/**
+ * Response of the wallet for each Hedera method
+ */
+export type HederaResponses = {
+  [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION]: HederaSignAndExecuteTransactionResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_BATCH]: HederaSignAndExecuteBatchResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION]: HederaSignAndReturnTransactionResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_TRANSACTION]: HederaSignTransactionResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_EXECUTE_TRANSACTION]: HederaSignAndExecuteTransactionResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY]: HederaSignAndExecuteQueryResult;
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_GET_NODE_ADDRESSES]: HederaGetNodeAddressesResult;
+  [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_MESSAGE]: HederaSignMessageResult;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isSignatureMap = (value: unknown) =>
+  isObject(value) && Object.values(value).every(isString);
+
+const isTransactionResponse = (value: unknown) =>
+  isObject(value) &&
+  isString(value.nodeId) &&
+  isString(value.transactionHash) &&
+  isString(value.transactionId);
+
+const isTransactionBytes = (value: unknown) =>
+  isObject(value) &&
+  isObject(value.transaction) &&
+  isString(value.transaction.type) &&
+  isString(value.transaction.bytes);
+
+/**
+ * Check of the response shape for each Hedera method, and what it expects
+ */
+const HEDERA_RESPONSE_VALIDATORS: {
+  [method in HederaMethod]: [(value: unknown) => boolean, string];
+} = {
+  [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION]: [
+    isTransactionResponse,
+    "`nodeId`, `transactionHash` and `transactionId` strings",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_BATCH]: [
+    (value) =>
+      isObject(value) &&
+      Array.isArray(value.results) &&
+      value.results.every(
+        (item: unknown) =>
+          isObject(item) &&
+          isString(item.transactionId) &&
+          typeof item.success === "boolean"
+      ),
+    "a `results` array of `transactionId` and `success`",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION]: [
+    isTransactionBytes,
+    "a `transaction` with `type` and `bytes` strings",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_TRANSACTION]: [
+    (value) => isObject(value) && isSignatureMap(value.signatureMap),
+    "a `signatureMap` of signatures by public key",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_EXECUTE_TRANSACTION]: [
+    isTransactionResponse,
+    "`nodeId`, `transactionHash` and `transactionId` strings",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY]: [
+    (value) => isObject(value) && isString(value.response),
+    "a `response` string",
+  ],
+  [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_GET_NODE_ADDRESSES]: [
+    (value) =>
+      isObject(value) &&
+      isString(value.network) &&
+      Array.isArray(value.nodes) &&
+      value.nodes.every(isString),
+    "a `network` string and a `nodes` array of node account ids",
+  ],
+  [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_MESSAGE]: [
+    (value) => isObject(value) && isSignatureMap(value.signatureMap),
+    "a `signatureMap` of signatures by public key",
+  ],
+};
+
+export const validateHederaResponse = <M extends HederaMethod>(
+  method: M,
+  response: unknown
+): HederaResponses[M] => {
+  const [isValid, expected] = HEDERA_RESPONSE_VALIDATORS[method];
+  if (!isValid(response)) {
+    throw new Error(
+      `Malformed ${method} response from the wallet, expected ${expected}: ${JSON.stringify(
+        response
+      )}`
+    );
+  }
+  return response as HederaResponses[M];
+};
+
+/**
+ * Whether the wallet submitted the transaction that was sent and it succeeded
+ */
+export const isHederaTransactionSuccessful = (
+  response: HederaSignAndExecuteTransactionResult,
+  transactionId: TransactionId,
+  receipt: TransactionReceipt
+) =>
+  response.transactionId === transactionId.toString() &&
+  receipt.status === Status.Success;
+
 export class HederaParamsFactory {
   public static buildTransactionPayload(
     type: RequestType,
-    transaction: Transaction
+    transaction: Transaction,
+    nodeAccountIds: AccountId[] = []
   ): HederaSignAndExecuteTransactionParams {
-    this._setNodeAccountIds(transaction);
+    this._setNodeAccountIds(transaction, nodeAccountIds);
     this._freezeTransaction(transaction);
     return {
       transaction: {
@@ -51,11 +283,64 @@ export class HederaParamsFactory {
     };
   }
 
+  public static buildBatchTransactionPayload(
+    items: { type: RequestType; transaction: Transaction }[],
+    nodeAccountIds: AccountId[] = []
+  ): HederaSignAndExecuteBatchParams {
+    return {
+      transactions: items.map(
+        ({ type, transaction }) =>
+          this.buildTransactionPayload(type, transaction, nodeAccountIds)
+            .transaction
+      ),
+    };
+  }
+
+  /**
+   * A signature only covers the body for one node, so the transaction is
+   * frozen for that node alone.
+   */
+  public static buildSignTransactionPayload(
+    type: RequestType,
+    transaction: Transaction,
+    nodeAccountId: AccountId
+  ): HederaSignTransactionParams {
+    return this.buildTransactionPayload(type, transaction, [nodeAccountId]);
+  }
+
+  /**
+   * The transaction is sent as is, since freezing or changing its nodes would
+   * invalidate the signatures.
+   */
+  public static buildExecuteTransactionPayload(
+    type: RequestType,
+    transaction: Transaction
+  ): HederaExecuteTransactionParams {
+    return {
+      transaction: {
+        type: type.toString(),
+        bytes: this._encodeTransactionBytes(transaction),
+      },
+    };
+  }
+
+  /**
+   * Query bytes do not include node account ids, the wallet picks the node
+   * that answers the query.
+   */
+  public static buildQueryPayload(
+    query: Query<unknown>
+  ): HederaSignAndExecuteQueryParams {
+    return {
+      query: Buffer.from(query.toBytes()).toString("base64"),
+    };
+  }
+
   public static buildSignMessagePayload(
     message: string
   ): HederaSignMessageParams {
     return {
-      message: Buffer.from(message).toString("base64"),
+      message: Buffer.from(encodeHederaMessage(message)).toString("base64"),
     };
   }
 
@@ -65,10 +350,19 @@ export class HederaParamsFactory {
     }
   }
 
-  private static _setNodeAccountIds(transaction: Transaction): void {
+  /**
+   * The transaction is frozen for every node so the wallet can submit it to
+   * any of them, falling back to node 0.0.3 if none are given.
+   */
+  private static _setNodeAccountIds(
+    transaction: Transaction,
+    nodeAccountIds: AccountId[]
+  ): void {
     const nodeIds = transaction.nodeAccountIds;
     if (!nodeIds || nodeIds.length === 0) {
-      transaction.setNodeAccountIds([new AccountId(3)]);
+      transaction.setNodeAccountIds(
+        nodeAccountIds.length ? nodeAccountIds : [new AccountId(3)]
+      );
     }
   }
 
@@ -78,6 +372,230 @@ export class HederaParamsFactory {
   }
 }
 
+/**
+ * Statuses after which the request can succeed with a new transaction id
+ */
+export const HEDERA_RETRYABLE_STATUSES = [
+  Status.TransactionExpired,
+  Status.Busy,
+  Status.PlatformNotActive,
+];
+
+export const HEDERA_MAX_RETRIES = 3;
+
+/**
+ * Hedera status of a failed request. SDK errors carry it as `status`, wallets
+ * report it as `data.status` or only mention the status name in the message.
+ * Errors that add context to another error keep it as their `cause`.
+ */
+export const getHederaErrorStatus = (error: any): Status | undefined => {
+  const causeStatus = error?.cause && getHederaErrorStatus(error.cause);
+  if (causeStatus) return causeStatus;
+
+  const status =
+    error instanceof StatusError ? error.status : error?.data?.status;
+  if (status instanceof Status) return status;
+  if (typeof status === "number") {
+    try {
+      return Status._fromCode(status);
+    } catch (e) {
+      // a code this version of the SDK does not know
+      return undefined;
+    }
+  }
+
+  const message: string =
+    typeof status === "string" ? status : error?.message ?? "";
+  return HEDERA_RETRYABLE_STATUSES.concat(
+    Array.from(HEDERA_STATUS_HINTS.keys())
+  ).find((known) => new RegExp(`\\b${known.toString()}\\b`).test(message));
+};
+
+export const isHederaRetryableError = (error: any) => {
+  const status = getHederaErrorStatus(error);
+  return !!status && HEDERA_RETRYABLE_STATUSES.includes(status);
+};
+
+/**
+ * Where a request failed: in the wallet, at the node precheck, when the
+ * network reached consensus on the transaction or while talking to a node or
+ * the mirror node
+ */
+export type HederaErrorKind =
+  | "wallet"
+  | "precheck"
+  | "receipt"
+  | "network"
+  | "unknown";
+
+export interface HederaError {
+  kind: HederaErrorKind;
+  message: string;
+  /** Hedera status, e.g. `INSUFFICIENT_PAYER_BALANCE` */
+  status?: string;
+  /** WalletConnect or JSON-RPC error code */
+  code?: number;
+  /** What the user can do about it */
+  hint?: string;
+}
+
+const HEDERA_STATUS_HINTS = new Map<Status, string>([
+  [
+    Status.InsufficientPayerBalance,
+    "The paying account does not have enough HBAR to cover the transaction fee, fund it and try again",
+  ],
+  [
+    Status.InsufficientAccountBalance,
+    "The sending account does not have enough HBAR for the transfer",
+  ],
+  [
+    Status.InsufficientTokenBalance,
+    "The sending account does not hold enough of the token for the transfer",
+  ],
+  [
+    Status.InsufficientTxFee,
+    "The max transaction fee is lower than the fee the network charges, raise it and try again",
+  ],
+  [
+    Status.TokenNotAssociatedToAccount,
+    "The account is not associated with the token, associate it before sending or receiving the token",
+  ],
+  [
+    Status.TokenAlreadyAssociatedToAccount,
+    "The account is already associated with the token",
+  ],
+  [
+    Status.InvalidSignature,
+    "The transaction is missing a signature required by one of its accounts",
+  ],
+  [
+    Status.InvalidAccountId,
+    "One of the accounts does not exist on this network",
+  ],
+  [Status.AccountDeleted, "One of the accounts has been deleted"],
+  [Status.InvalidTokenId, "The token does not exist on this network"],
+  [Status.InvalidTopicId, "The topic does not exist on this network"],
+  [
+    Status.InvalidNodeAccount,
+    "The transaction was sent to a node it was not built for, select the wallet's nodes and try again",
+  ],
+  [
+    Status.DuplicateTransaction,
+    "A transaction with the same transaction id has already been submitted",
+  ],
+  [
+    Status.TransactionExpired,
+    "The transaction was not submitted within its valid duration, approve it sooner",
+  ],
+  [Status.Busy, "The node is busy, try again in a moment"],
+  [
+    Status.PlatformNotActive,
+    "The network is not accepting transactions right now, try again in a moment",
+  ],
+  [
+    Status.SpenderDoesNotHaveAllowance,
+    "The spender has not been approved an allowance by the owner",
+  ],
+  [
+    Status.AmountExceedsAllowance,
+    "The amount is larger than the allowance left for the spender",
+  ],
+  [
+    Status.ContractRevertExecuted,
+    "The contract reverted, check the function parameters",
+  ],
+  [
+    Status.InsufficientGas,
+    "The contract ran out of gas, raise the gas limit and try again",
+  ],
+]);
+
+const WALLET_ERROR_HINTS: Record<number, string> = {
+  [getSdkError("USER_REJECTED").code]: "The request was rejected in the wallet",
+  [getSdkError("USER_REJECTED_METHODS").code]:
+    "The wallet rejected the method, reconnect and approve it",
+  [getSdkError("UNSUPPORTED_METHODS").code]:
+    "The wallet does not support this method, connect a wallet that does",
+  [getSdkError("UNSUPPORTED_CHAINS").code]:
+    "The wallet does not support this network, connect it to the selected network",
+  [getSdkError("UNSUPPORTED_ACCOUNTS").code]:
+    "The account is not part of the session, reconnect and approve it",
+  [getSdkError("UNAUTHORIZED_METHOD").code]:
+    "The method was not approved for this session, reconnect and approve it",
+};
+
+/**
+ * Whether a status error was raised by the node precheck or by the receipt.
+ * Wallets report it as `data.stage`, or name the SDK error it came from in
+ * `data.name` or its message.
+ */
+const getHederaErrorStage = (
+  error: any
+): "precheck" | "receipt" | undefined => {
+  if (error instanceof PrecheckStatusError) return "precheck";
+  if (error instanceof ReceiptStatusError) return "receipt";
+
+  const stage = [error?.data?.stage, error?.data?.name, error?.message].join(
+    " "
+  );
+  if (/receipt/i.test(stage)) return "receipt";
+  if (/precheck/i.test(stage)) return "precheck";
+  return undefined;
+};
+
+/**
+ * Classifies the error of a failed request. Errors reported by the wallet are
+ * JSON-RPC errors with a numeric `code`, a Hedera status they carry is
+ * classified by the stage it failed at, if that is known.
+ */
+export const parseHederaError = (error: any): HederaError => {
+  const message: string =
+    error?.message ?? (typeof error === "string" ? error : "Unknown error");
+
+  // errors that add context keep the error they were raised for as `cause`
+  let source = error;
+  while (source?.cause) source = source.cause;
+
+  if (axios.isAxiosError(source)) {
+    return {
+      kind: "network",
+      message,
+      ...(source.response && { code: source.response.status }),
+      hint: "The mirror node could not be reached or did not return the data, try again",
+    };
+  }
+
+  const status = getHederaErrorStatus(error);
+  if (status) {
+    return {
+      kind: getHederaErrorStage(source) ?? "unknown",
+      message,
+      status: status.toString(),
+      ...(typeof source?.code === "number" && { code: source.code }),
+      hint: HEDERA_STATUS_HINTS.get(status),
+    };
+  }
+
+  if (typeof source?.code === "number" && !(source instanceof Error)) {
+    return {
+      kind: "wallet",
+      message,
+      code: source.code,
+      hint: WALLET_ERROR_HINTS[source.code],
+    };
+  }
+
+  if (/timeout|timed out/i.test(message)) {
+    return {
+      kind: "network",
+      message,
+      hint: "The request did not reach the network in time, try again",
+    };
+  }
+
+  return { kind: "unknown", message };
+};
+
 const hederaApi: AxiosInstance = axios.create({
   timeout: 10000, // 10 secs
   headers: {
@@ -101,6 +619,869 @@ export const apiGetHederaAccountBalance = async (address: string) => {
   };
 };
 
+/**
+ * Key as returned by the mirror node, e.g. `{ _type: "ED25519", key: "<hex>" }`
+ */
+type HederaMirrorKey = {
+  _type: string;
+  key: string;
+};
+
+const parseHederaMirrorKey = ({ _type, key }: HederaMirrorKey): PublicKey => {
+  switch (_type) {
+    case "ED25519":
+      return PublicKey.fromStringED25519(key);
+    case "ECDSA_SECP256K1":
+      return PublicKey.fromStringECDSA(key);
+    default:
+      throw new Error(`Unsupported Hedera account key type: ${_type}`);
+  }
+};
+
+/**
+ * Account key of any type, key lists and threshold keys are returned by the
+ * mirror node as the hex encoded `proto.Key` with `_type: "ProtobufEncoded"`
+ */
+const parseHederaMirrorAccountKey = ({ _type, key }: HederaMirrorKey): Key =>
+  _type === "ProtobufEncoded"
+    ? Key._fromProtobufKey(proto.Key.decode(Buffer.from(key, "hex")))
+    : parseHederaMirrorKey({ _type, key });
+
+export type HederaAccountInfo = {
+  accountId: string;
+  memo: string;
+  maxAutomaticTokenAssociations: number;
+  stakedNodeId: number | null;
+  stakedAccountId: string | null;
+  declineStakingReward: boolean;
+  key: HederaMirrorKey | null;
+};
+
+export const apiGetHederaAccountInfo = async (
+  address: string
+): Promise<HederaAccountInfo> => {
+  const response = await hederaApi.get(`/accounts/${address}`);
+  const data = response.data;
+  return {
+    accountId: data.account,
+    memo: data.memo,
+    maxAutomaticTokenAssociations: data.max_automatic_token_associations,
+    stakedNodeId: data.staked_node_id,
+    stakedAccountId: data.staked_account_id,
+    declineStakingReward: data.decline_reward,
+    key: data.key,
+  };
+};
+
+export const apiGetHederaAccountKey = async (address: string): Promise<Key> => {
+  const { key } = await apiGetHederaAccountInfo(address);
+  if (!key) {
+    throw new Error(`No key found for Hedera account ${address}`);
+  }
+  return parseHederaMirrorAccountKey(key);
+};
+
+/**
+ * Whether the signers satisfy the key. Every key of a key list has to be
+ * satisfied, and at least `threshold` of them for a threshold key.
+ */
+export const isHederaKeySatisfied = (
+  key: Key,
+  signers: PublicKey[]
+): boolean => {
+  if (key instanceof PublicKey) {
+    return signers.some((signer) => signer.equals(key));
+  }
+  if (key instanceof KeyList) {
+    const keys = key.toArray();
+    const satisfied = keys.filter((k) => isHederaKeySatisfied(k, signers));
+    return satisfied.length >= (key.threshold ?? keys.length);
+  }
+  // e.g. contract ids, which cannot sign
+  return false;
+};
+
+export const apiGetHederaAccountPublicKey = async (
+  address: string
+): Promise<PublicKey> => {
+  const { key } = await apiGetHederaAccountInfo(address);
+  if (!key) {
+    throw new Error(`No key found for Hedera account ${address}`);
+  }
+  return parseHederaMirrorKey(key);
+};
+
+export type HederaAllowances = {
+  crypto: { spender: string; amount: string; amountGranted: string }[];
+  tokens: {
+    tokenId: string;
+    spender: string;
+    amount: string;
+    amountGranted: string;
+  }[];
+  nfts: { tokenId: string; spender: string; approvedForAll: boolean }[];
+};
+
+export const apiGetHederaAccountAllowances = async (
+  address: string
+): Promise<HederaAllowances> => {
+  const [crypto, tokens, nfts] = await Promise.all(
+    ["crypto", "tokens", "nfts"].map((type) =>
+      hederaApi.get(`/accounts/${address}/allowances/${type}`)
+    )
+  );
+  return {
+    crypto: crypto.data.allowances.map((allowance: any) => ({
+      spender: allowance.spender,
+      amount: formatTinybarAsHbar(allowance.amount),
+      amountGranted: formatTinybarAsHbar(allowance.amount_granted),
+    })),
+    tokens: tokens.data.allowances.map((allowance: any) => ({
+      tokenId: allowance.token_id,
+      spender: allowance.spender,
+      amount: allowance.amount.toString(),
+      amountGranted: allowance.amount_granted.toString(),
+    })),
+    nfts: nfts.data.allowances.map((allowance: any) => ({
+      tokenId: allowance.token_id,
+      spender: allowance.spender,
+      approvedForAll: allowance.approved_for_all,
+    })),
+  };
+};
+
+/**
+ * Topics created by `address` that have not been deleted, most recent first
+ */
+export const apiGetHederaAccountTopics = async (
+  address: string
+): Promise<string[]> => {
+  const getTopicIds = async (transactionType: string) => {
+    const transactions: any[] = [];
+    let response = await hederaApi.get("/transactions", {
+      params: {
+        "account.id": address,
+        transactiontype: transactionType,
+        result: "success",
+        order: "desc",
+        limit: 100,
+      },
+    });
+    transactions.push(...response.data.transactions);
+    // `links.next` includes the `/api/v1` prefix of the base url
+    while (response.data.links?.next) {
+      response = await hederaApi.get(
+        response.data.links.next.replace(/^\/api\/v1/, "")
+      );
+      transactions.push(...response.data.transactions);
+    }
+    return transactions
+      .filter((transaction) =>
+        transaction.transaction_id.startsWith(`${address}-`)
+      )
+      .map((transaction) => transaction.entity_id as string);
+  };
+  const [created, deleted] = await Promise.all([
+    getTopicIds("CONSENSUSCREATETOPIC"),
+    getTopicIds("CONSENSUSDELETETOPIC"),
+  ]);
+  return created.filter((topicId: string) => !deleted.includes(topicId));
+};
+
+/** Messages larger than a chunk are split into one transaction per chunk */
+export const HEDERA_TOPIC_MESSAGE_CHUNK_SIZE = 1024;
+export const HEDERA_TOPIC_MESSAGE_MAX_CHUNKS = 50;
+
+export type HederaTopicMessage = {
+  message: Uint8Array;
+  chunks: {
+    number: number;
+    sequenceNumber: number;
+    consensusTimestamp: string;
+  }[];
+};
+
+/**
+ * Reassembles a (possibly chunked) topic message from the mirror node. Chunks
+ * of a message share the transaction id of the first chunk.
+ */
+export const apiGetHederaTopicMessage = async (
+  topicId: string,
+  initialTransactionId: TransactionId,
+  totalChunks: number
+): Promise<HederaTopicMessage> => {
+  const { seconds, nanos } = initialTransactionId.validStart!;
+  const validStart = `${seconds.toString()}.${nanos
+    .toString()
+    .padStart(9, "0")}`;
+  const payerAccountId = initialTransactionId.accountId!.toString();
+
+  const chunks = await pollHederaMirror(
+    async () => {
+      const response = await hederaApi.get(`/topics/${topicId}/messages`, {
+        params: { order: "desc", limit: 100 },
+      });
+      return response.data.messages.filter(
+        ({ chunk_info }: any) =>
+          chunk_info?.initial_transaction_id.account_id === payerAccountId &&
+          chunk_info?.initial_transaction_id.transaction_valid_start ===
+            validStart
+      );
+    },
+    (messages) => messages.length >= totalChunks
+  );
+  if (chunks.length < totalChunks) {
+    throw new Error(
+      `Only ${chunks.length} of ${totalChunks} message chunks found on the mirror node`
+    );
+  }
+
+  chunks.sort((a: any, b: any) => a.chunk_info.number - b.chunk_info.number);
+  return {
+    message: Buffer.concat(
+      chunks.map(({ message }: any) => Buffer.from(message, "base64"))
+    ),
+    chunks: chunks.map((chunk: any) => ({
+      number: chunk.chunk_info.number,
+      sequenceNumber: chunk.sequence_number,
+      consensusTimestamp: chunk.consensus_timestamp,
+    })),
+  };
+};
+
+/**
+ * Bytes a signature covers, of a transaction frozen for a single node
+ */
+export const getHederaTransactionBodyBytes = (
+  transaction: Transaction
+): Uint8Array => transaction._signedTransactions.get(0).bodyBytes!;
+
+/**
+ * Attaches the valid signatures of a `hedera_signTransaction` result to the
+ * transaction and returns their public keys, invalid ones are left out
+ */
+export const addHederaSignatures = (
+  transaction: Transaction,
+  { signatureMap }: HederaSignTransactionResult
+): PublicKey[] => {
+  const bodyBytes = getHederaTransactionBodyBytes(transaction);
+  return Object.entries(signatureMap).flatMap(([publicKey, signature]) => {
+    try {
+      const signer = PublicKey.fromString(publicKey);
+      const bytes = Buffer.from(signature, "hex");
+      if (!signer.verify(bodyBytes, bytes)) {
+        return [];
+      }
+      transaction.addSignature(signer, bytes);
+      return [signer];
+    } catch {
+      return [];
+    }
+  });
+};
+
+/**
+ * Message prefixed with "\x19Hedera Signed Message:\n" and its byte length,
+ * so signed messages can never be mistaken for transaction bytes. Wallets
+ * should refuse to sign messages without the prefix.
+ */
+export const encodeHederaMessage = (message: string): Uint8Array => {
+  const data = Buffer.from(message, "utf8");
+  return Buffer.concat([
+    Buffer.from(
+      "\x19Hedera Signed Message:\n" + data.length.toString(),
+      "utf8"
+    ),
+    data,
+  ]);
+};
+
+export const hashHederaMessage = (message: string): string =>
+  utils.keccak256(encodeHederaMessage(message));
+
+/**
+ * Verifies a hex encoded signature over the prefixed message
+ */
+export const verifyHederaMessageSignature = (
+  message: string,
+  signature: string,
+  publicKey: PublicKey | string
+): boolean => {
+  try {
+    const signer =
+      typeof publicKey === "string"
+        ? PublicKey.fromString(publicKey)
+        : publicKey;
+    return signer.verify(
+      encodeHederaMessage(message),
+      Buffer.from(signature, "hex")
+    );
+  } catch (e) {
+    // not a public key or signature
+    return false;
+  }
+};
+
+/**
+ * Verifies the signatures of a `hedera_signMessage` result over the prefixed
+ * message, and returns the public keys whose signature is valid
+ */
+export const verifyHederaMessageSignatures = (
+  message: string,
+  { signatureMap }: HederaSignMessageResult
+): PublicKey[] =>
+  Object.entries(signatureMap)
+    .filter(([publicKey, signature]) =>
+      verifyHederaMessageSignature(message, signature, publicKey)
+    )
+    .map(([publicKey]) => PublicKey.fromString(publicKey));
+
+export type HederaTokenInfo = {
+  tokenId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  type: string;
+};
+
+export const apiGetHederaTokenInfo = async (
+  tokenId: string
+): Promise<HederaTokenInfo> => {
+  const response = await hederaApi.get(`/tokens/${tokenId}`);
+  const { token_id, name, symbol, decimals, type } = response.data;
+  return {
+    tokenId: token_id,
+    name,
+    symbol,
+    decimals: Number(decimals),
+    type,
+  };
+};
+
+export const apiGetHederaTokenAssociation = async (
+  address: string,
+  tokenId: string
+): Promise<boolean> => {
+  const response = await hederaApi.get(`/accounts/${address}/tokens`, {
+    params: { "token.id": tokenId },
+  });
+  return response.data.tokens.length > 0;
+};
+
+/**
+ * HIP-412 NFT metadata, see https://hips.hedera.com/hip/hip-412
+ */
+export type HederaNftMetadata = {
+  name: string;
+  image: string;
+  type: string;
+  creator?: string;
+  description?: string;
+  properties?: Record<string, unknown>;
+};
+
+/** The network rejects NFT metadata larger than this */
+export const HEDERA_NFT_METADATA_MAX_BYTES = 100;
+
+const IPFS_GATEWAY_URL = "https://ipfs.io/ipfs/";
+
+const resolveIpfsUrl = (url: string) =>
+  url.startsWith("ipfs://") ? url.replace("ipfs://", IPFS_GATEWAY_URL) : url;
+
+export const parseHip412Metadata = (json: string): HederaNftMetadata => {
+  const metadata = JSON.parse(json);
+  ["name", "image", "type"].forEach((field) => {
+    if (typeof metadata[field] !== "string") {
+      throw new Error(`HIP-412 metadata is missing required field: ${field}`);
+    }
+  });
+  return metadata;
+};
+
+/**
+ * NFT metadata is either a HIP-412 JSON document or a URI pointing to one.
+ * Inline JSON is minified and must fit within the network's metadata limit.
+ */
+export const encodeHederaNftMetadata = (metadata: string): Uint8Array => {
+  const trimmed = metadata.trim();
+  const encoded = Buffer.from(
+    trimmed.startsWith("{")
+      ? JSON.stringify(parseHip412Metadata(trimmed))
+      : trimmed
+  );
+  if (encoded.length > HEDERA_NFT_METADATA_MAX_BYTES) {
+    throw new Error(
+      `NFT metadata is ${encoded.length} bytes, the limit is ${HEDERA_NFT_METADATA_MAX_BYTES}. Host the HIP-412 JSON and mint its URI instead.`
+    );
+  }
+  return encoded;
+};
+
+const resolveHip412Metadata = async (
+  metadata: string
+): Promise<HederaNftMetadata | undefined> => {
+  try {
+    if (metadata.startsWith("{")) {
+      return parseHip412Metadata(metadata);
+    }
+    if (/^(ipfs|https?):\/\//.test(metadata)) {
+      const response = await axios.get(resolveIpfsUrl(metadata), {
+        timeout: 10000,
+      });
+      return parseHip412Metadata(JSON.stringify(response.data));
+    }
+  } catch (e) {
+    console.error(`Failed to resolve NFT metadata: ${metadata}`, e);
+  }
+  return undefined;
+};
+
+export const apiGetHederaAccountNfts = async (
+  address: string
+): Promise<NftData[]> => {
+  const response = await hederaApi.get(`/accounts/${address}/nfts`);
+  return Promise.all(
+    response.data.nfts.map(async (nft: any) => {
+      const metadata = Buffer.from(nft.metadata ?? "", "base64").toString();
+      const resolved = await resolveHip412Metadata(metadata);
+      return {
+        tokenId: nft.token_id,
+        serialNumber: nft.serial_number.toString(),
+        metadata,
+        name: resolved?.name,
+        description: resolved?.description,
+        image: resolved?.image && resolveIpfsUrl(resolved.image),
+      };
+    })
+  );
+};
+
+/**
+ * The mirror node identifies transactions as `0.0.2-1687208990-123456789`
+ * rather than the SDK's `0.0.2@1687208990.123456789`.
+ */
+export const formatHederaMirrorTransactionId = (
+  transactionId: TransactionId
+): string => {
+  const { seconds, nanos } = transactionId.validStart!;
+  return `${transactionId.accountId!.toString()}-${seconds.toString()}-${nanos
+    .toString()
+    .padStart(9, "0")}`;
+};
+
+/**
+ * The mirror node lags consensus by a few seconds, so retry lookups of
+ * freshly executed transactions until they are found and `isReady`.
+ */
+const pollHederaMirror = async <T>(
+  request: () => Promise<T>,
+  isReady: (result: T) => boolean = () => true,
+  attempts = 10,
+  interval = 1000
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await request();
+      if (isReady(result) || attempt >= attempts) return result;
+    } catch (e: any) {
+      if (e?.response?.status !== 404 || attempt >= attempts) throw e;
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+};
+
+export type HederaContractLog = {
+  address: string;
+  data: string;
+  topics: string[];
+};
+
+export type HederaContractResult = {
+  result: string;
+  callResult: string;
+  errorMessage?: string;
+  logs: HederaContractLog[];
+};
+
+export const apiGetHederaContractResult = async (
+  transactionId: TransactionId
+): Promise<HederaContractResult> => {
+  const response = await pollHederaMirror(() =>
+    hederaApi.get(
+      `/contracts/results/${formatHederaMirrorTransactionId(transactionId)}`
+    )
+  );
+  const { result, call_result, error_message, logs } = response.data;
+  return {
+    result,
+    callResult: call_result ?? "0x",
+    errorMessage: error_message ?? undefined,
+    logs: logs.map(({ address, data, topics }: HederaContractLog) => ({
+      address,
+      data,
+      topics,
+    })),
+  };
+};
+
+/**
+ * Transactions the ScheduleCreate action can wrap
+ */
+export enum HEDERA_SCHEDULABLE_TRANSACTIONS {
+  HBAR_TRANSFER = "HBAR transfer",
+  TOKEN_TRANSFER = "Token transfer",
+  TOKEN_MINT = "Token mint",
+}
+
+export type HederaScheduleOptions = {
+  memo?: string;
+  adminKey?: Key;
+};
+
+/**
+ * Wraps a built transaction in a ScheduleCreate, so it executes once every
+ * key it requires has signed. The inner transaction must not be frozen, and
+ * its transaction id is replaced by the one of the schedule.
+ */
+export const scheduleHederaTransaction = (
+  transaction: Transaction,
+  { memo, adminKey }: HederaScheduleOptions = {}
+): ScheduleCreateTransaction => {
+  const schedule = new ScheduleCreateTransaction().setScheduledTransaction(
+    transaction
+  );
+  if (memo) schedule.setScheduleMemo(memo);
+  if (adminKey) schedule.setAdminKey(adminKey);
+  return schedule;
+};
+
+export type HederaScheduleSignature = {
+  publicKeyPrefix: string;
+  type: string;
+  consensusTimestamp: string;
+};
+
+export type HederaScheduleInfo = {
+  scheduleId: string;
+  creatorAccountId: string;
+  payerAccountId: string;
+  memo: string;
+  executed: boolean;
+  executedTimestamp?: string;
+  deleted: boolean;
+  expirationTime?: string;
+  signatures: HederaScheduleSignature[];
+};
+
+const getHederaSchedule = async (
+  scheduleId: string
+): Promise<HederaScheduleInfo> => {
+  const response = await hederaApi.get(`/schedules/${scheduleId}`);
+  const data = response.data;
+  return {
+    scheduleId: data.schedule_id,
+    creatorAccountId: data.creator_account_id,
+    payerAccountId: data.payer_account_id,
+    memo: data.memo,
+    executed: !!data.executed_timestamp,
+    executedTimestamp: data.executed_timestamp ?? undefined,
+    deleted: data.deleted,
+    expirationTime: data.expiration_time ?? undefined,
+    signatures: data.signatures.map((signature: any) => ({
+      publicKeyPrefix: Buffer.from(
+        signature.public_key_prefix,
+        "base64"
+      ).toString("hex"),
+      type: signature.type,
+      consensusTimestamp: signature.consensus_timestamp,
+    })),
+  };
+};
+
+/**
+ * Fetches a schedule from the mirror node, optionally waiting until it has
+ * collected at least `minSignatures` signatures or has executed.
+ */
+export const apiGetHederaSchedule = async (
+  scheduleId: string,
+  minSignatures = 0
+): Promise<HederaScheduleInfo> =>
+  pollHederaMirror(
+    () => getHederaSchedule(scheduleId),
+    (schedule) =>
+      schedule.executed || schedule.signatures.length >= minSignatures
+  );
+
+/** Lists the state changing functions of an ABI as `name(type,...)` signatures */
+export const getHederaContractFunctions = (
+  abi: string,
+  constant = false
+): string[] => {
+  try {
+    return Object.values(new utils.Interface(abi).functions)
+      .filter((fragment) => fragment.constant === constant)
+      .map((fragment) => fragment.format());
+  } catch (e) {
+    return [];
+  }
+};
+
+const HEDERA_ENTITY_ID_REGEX = /^\d+\.\d+\.\d+$/;
+
+/**
+ * Parses `args` as a JSON array for the given ABI inputs. `address` arguments
+ * may be given as Hedera entity ids (e.g. `0.0.1234`).
+ */
+const parseHederaContractArgs = (
+  inputs: utils.ParamType[],
+  args: string
+): any[] => {
+  const values = JSON.parse(args || "[]");
+  if (!Array.isArray(values)) {
+    throw new Error("Contract arguments must be a JSON array");
+  }
+  return values.map((value, i) =>
+    inputs[i]?.type === "address" && HEDERA_ENTITY_ID_REGEX.test(value)
+      ? `0x${AccountId.fromString(value).toSolidityAddress()}`
+      : value
+  );
+};
+
+export const encodeHederaContractCall = (
+  abi: string,
+  functionName: string,
+  args: string
+): Uint8Array => {
+  const iface = new utils.Interface(abi);
+  const fragment = iface.getFunction(functionName);
+  return utils.arrayify(
+    iface.encodeFunctionData(
+      fragment,
+      parseHederaContractArgs(fragment.inputs, args)
+    )
+  );
+};
+
+/** Contracts without an ABI or constructor take no constructor parameters */
+export const encodeHederaContractConstructor = (
+  abi: string,
+  args: string
+): Uint8Array => {
+  if (!abi.trim()) return new Uint8Array();
+  const iface = new utils.Interface(abi);
+  return utils.arrayify(
+    iface.encodeDeploy(parseHederaContractArgs(iface.deploy.inputs, args))
+  );
+};
+
+/** Converts ethers `Result`s to plain JSON, with numbers as decimal strings */
+const formatContractValue = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(formatContractValue);
+  }
+  if (value?._isBigNumber) {
+    return value.toString();
+  }
+  return value;
+};
+
+export const decodeHederaContractResult = (
+  abi: string,
+  functionName: string,
+  callResult: string
+) => {
+  const iface = new utils.Interface(abi);
+  return formatContractValue(
+    iface.decodeFunctionResult(functionName, callResult)
+  );
+};
+
+export const decodeHederaContractLogs = (
+  abi: string,
+  logs: HederaContractLog[]
+) => {
+  const iface = new utils.Interface(abi);
+  return logs.map((log) => {
+    try {
+      const { name, signature, args } = iface.parseLog(log);
+      return {
+        address: log.address,
+        name,
+        signature,
+        args: Object.fromEntries(
+          Object.keys(args)
+            .filter((key) => isNaN(Number(key)))
+            .map((key) => [key, formatContractValue(args[key])])
+        ),
+      };
+    } catch (e) {
+      // emitted by a contract that isn't described by this ABI
+      return log;
+    }
+  });
+};
+
+/**
+ * Transactions are limited to 6 KiB, so file contents larger than this are
+ * uploaded with a FileCreate followed by one FileAppend per remaining chunk.
+ */
+export const HEDERA_FILE_CHUNK_SIZE = 4096;
+
+export const chunkHederaFileContents = (contents: string): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i < contents.length; i += HEDERA_FILE_CHUNK_SIZE) {
+    chunks.push(contents.slice(i, i + HEDERA_FILE_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Progress of a contract deployment, persisted so that a deployment can
+ * resume after one of its requests is rejected or fails. Only the account that
+ * created the bytecode file can append to it, so deployments are kept per
+ * chain and account.
+ */
+export type HederaContractDeployment = {
+  bytecodeHash: string;
+  fileId?: string;
+  /** Milliseconds since epoch after which the file no longer exists */
+  fileExpiresAt?: number;
+  appendedChunks: number;
+};
+
+const HEDERA_CONTRACT_DEPLOYMENT_KEY = "hedera-contract-deployment";
+
+/**
+ * File statuses after which the bytecode file cannot be appended to or
+ * deployed from, and the deployment has to start over
+ */
+export const HEDERA_MISSING_FILE_STATUSES = [
+  Status.FileDeleted,
+  Status.InvalidFileId,
+];
+
+const getHederaContractDeploymentKey = (
+  chainId: string,
+  address: string,
+  bytecodeHash: string
+) => `${chainId}:${address}:${bytecodeHash}`;
+
+const restoreHederaContractDeployments = (): Record<
+  string,
+  HederaContractDeployment
+> => {
+  const persisted = localStorage.getItem(HEDERA_CONTRACT_DEPLOYMENT_KEY);
+  return persisted ? JSON.parse(persisted) : {};
+};
+
+export const restoreHederaContractDeployment = (
+  chainId: string,
+  address: string,
+  bytecode: string
+): HederaContractDeployment => {
+  const bytecodeHash = utils.id(bytecode);
+  const deployment =
+    restoreHederaContractDeployments()[
+      getHederaContractDeploymentKey(chainId, address, bytecodeHash)
+    ];
+  if (!deployment || (deployment.fileExpiresAt ?? 0) <= Date.now()) {
+    return { bytecodeHash, appendedChunks: 0 };
+  }
+  return deployment;
+};
+
+export const saveHederaContractDeployment = (
+  chainId: string,
+  address: string,
+  deployment: HederaContractDeployment
+) => {
+  localStorage.setItem(
+    HEDERA_CONTRACT_DEPLOYMENT_KEY,
+    JSON.stringify({
+      ...restoreHederaContractDeployments(),
+      [getHederaContractDeploymentKey(
+        chainId,
+        address,
+        deployment.bytecodeHash
+      )]: deployment,
+    })
+  );
+};
+
+export const clearHederaContractDeployment = (
+  chainId: string,
+  address: string,
+  bytecodeHash: string
+) => {
+  const deployments = restoreHederaContractDeployments();
+  delete deployments[
+    getHederaContractDeploymentKey(chainId, address, bytecodeHash)
+  ];
+  localStorage.setItem(
+    HEDERA_CONTRACT_DEPLOYMENT_KEY,
+    JSON.stringify(deployments)
+  );
+};
+
+export type HederaNode = {
+  nodeAccountId: string;
+  description: string;
+};
+
+/**
+ * Consensus nodes of the network's address book
+ */
+export const apiGetHederaNetworkNodes = async (): Promise<HederaNode[]> => {
+  const response = await hederaApi.get("/network/nodes", {
+    params: { limit: 25 },
+  });
+  return response.data.nodes.map((node: any) => ({
+    nodeAccountId: node.node_account_id,
+    description: node.description,
+  }));
+};
+
+/**
+ * Selected node account ids per chain, e.g. `{ "hedera:testnet": ["0.0.3"] }`
+ */
+const HEDERA_NODE_ACCOUNT_IDS_KEY = "hedera-node-account-ids";
+
+const restoreHederaNodeSelection = (): Record<string, string[]> =>
+  JSON.parse(localStorage.getItem(HEDERA_NODE_ACCOUNT_IDS_KEY) ?? "{}");
+
+export const restoreHederaNodeAccountIds = (
+  chainId: string
+): string[] | undefined => restoreHederaNodeSelection()[chainId];
+
+export const saveHederaNodeAccountIds = (
+  chainId: string,
+  nodeAccountIds: string[]
+) => {
+  localStorage.setItem(
+    HEDERA_NODE_ACCOUNT_IDS_KEY,
+    JSON.stringify({
+      ...restoreHederaNodeSelection(),
+      [chainId]: nodeAccountIds,
+    })
+  );
+};
+
+/**
+ * Nodes selected for the chain, or every node of the address book if none are
+ */
+export const getHederaNodeAccountIds = async (
+  chainId: string
+): Promise<AccountId[]> => {
+  const nodeAccountIds =
+    restoreHederaNodeAccountIds(chainId) ??
+    (await apiGetHederaNetworkNodes()).map(
+      ({ nodeAccountId }) => nodeAccountId
+    );
+  return nodeAccountIds.map((nodeAccountId) =>
+    AccountId.fromString(nodeAccountId)
+  );
+};
+
 const createTestnetClient = () => {
   try {
     /**
@@ -135,34 +1516,123 @@ const createTestnetClient = () => {
 
 export const hederaTestnetClient = createTestnetClient();
 
-/** Submitting to this topic may fail, but we attempt to create a new one below */
-const DEFAULT_HEDERA_TOPIC_ID = "0.0.12345";
-const HEDERA_TOPIC_ID_KEY = "hedera-topic-id";
+/**
+ * Receipt queries are free, so they don't require the env operator to be configured.
+ */
+export const getHederaTransactionReceipt = async (
+  transactionId: TransactionId
+): Promise<TransactionReceipt> => {
+  const client = hederaTestnetClient ?? Client.forTestnet();
+  return new TransactionReceiptQuery()
+    .setTransactionId(transactionId)
+    .execute(client);
+};
 
-export const createOrRestoreHederaTopicId = async () => {
-  let topicId =
-    localStorage.getItem(HEDERA_TOPIC_ID_KEY) ?? DEFAULT_HEDERA_TOPIC_ID;
-  if (topicId === DEFAULT_HEDERA_TOPIC_ID) {
-    try {
-      /**
-       * Create a new topic id and save to local storage.
-       * Note: Hedera Testnet occassionally resets data. If you have a stale topic id
-       * saved in local storage, just remove it by running `localStorage.removeItem('hedera-topic-id')`
-       * in the browswer console and then reload the app.
-       */
-      if (hederaTestnetClient) {
-        const topicCreateTxn = new TopicCreateTransaction();
-        const response = await topicCreateTxn.execute(hederaTestnetClient);
-        const receipt = await response.getReceipt(hederaTestnetClient);
-        const newTopicId = receipt.topicId?.toString() ?? topicId;
-        topicId = newTopicId;
-      }
-    } catch (e) {
-      console.error(e);
-    }
+/**
+ * Decodes the response of a `hedera_signAndExecuteQuery` with the output type
+ * of the query
+ */
+export const decodeHederaQueryResponse = (
+  query: Query<unknown>,
+  { response }: HederaSignAndExecuteQueryResult
+) => {
+  const bytes = Buffer.from(response, "base64");
+  if (query instanceof AccountInfoQuery) {
+    return AccountInfo.fromBytes(bytes);
   }
-  localStorage.setItem(HEDERA_TOPIC_ID_KEY, topicId);
-  return topicId;
+  if (query instanceof TokenInfoQuery) {
+    return TokenInfo.fromBytes(bytes);
+  }
+  if (query instanceof ContractCallQuery) {
+    return ContractFunctionResult._fromProtobuf(
+      proto.ContractFunctionResult.decode(bytes),
+      false
+    );
+  }
+  throw new Error(`Unsupported Hedera query: ${query.constructor.name}`);
+};
+
+/**
+ * Submits a signed transaction through a local client instead of the wallet.
+ * The client has no operator, otherwise it would add the operator's signature
+ * and the transaction would not go out exactly as the wallet signed it.
+ */
+export const executeHederaTransaction = async (transaction: Transaction) => {
+  const response = await transaction.execute(Client.forTestnet());
+  return response.toJSON();
+};
+
+/**
+ * Fields of a transaction to check before it is submitted
+ */
+export const describeHederaTransaction = (
+  transaction: Transaction
+): Record<string, string> => ({
+  transactionId: transaction.transactionId?.toString() ?? "",
+  memo: transaction.transactionMemo,
+  maxTransactionFee: transaction.maxTransactionFee?.toString() ?? "",
+  nodeAccountIds: (transaction.nodeAccountIds ?? []).join(", "),
+  // sorted, as the wallet may serialize transfers in another order
+  ...(transaction instanceof TransferTransaction && {
+    hbarTransfers: Array.from(transaction.hbarTransfers)
+      .map(([accountId, amount]) => `${accountId}: ${amount}`)
+      .sort()
+      .join(", "),
+    tokenTransfers: Array.from(transaction.tokenTransfers)
+      .flatMap(([tokenId, transfers]) =>
+        Array.from(transfers).map(
+          ([accountId, amount]) => `${tokenId} ${accountId}: ${amount}`
+        )
+      )
+      .sort()
+      .join(", "),
+    nftTransfers: Array.from(transaction.nftTransfers)
+      .flatMap(([tokenId, transfers]) =>
+        transfers.map(
+          ({ sender, recipient, serial }) =>
+            `${tokenId}/${serial} ${sender} -> ${recipient}`
+        )
+      )
+      .sort()
+      .join(", "),
+  }),
+});
+
+/**
+ * Fields that differ between the transaction the dApp froze and the one the
+ * wallet returned, which should be identical apart from the signatures
+ */
+export const compareHederaTransactions = (
+  sent: Transaction,
+  returned: Transaction
+): Record<string, { sent: string; returned: string }> => {
+  const expected = describeHederaTransaction(sent);
+  const actual = describeHederaTransaction(returned);
+  return Object.fromEntries(
+    Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]))
+      .filter((field) => expected[field] !== actual[field])
+      .map((field) => [
+        field,
+        { sent: expected[field] ?? "", returned: actual[field] ?? "" },
+      ])
+  );
+};
+
+/**
+ * Public keys that have a valid signature on every body of the transaction
+ */
+export const getHederaTransactionSigners = (
+  transaction: Transaction
+): PublicKey[] => {
+  const publicKeys = new Map<string, PublicKey>();
+  Array.from(transaction.getSignatures()).forEach(([, nodeSignatures]) =>
+    Array.from(nodeSignatures).forEach(([publicKey]) =>
+      publicKeys.set(publicKey.toString(), publicKey)
+    )
+  );
+  return Array.from(publicKeys.values()).filter((publicKey) =>
+    publicKey.verifyTransaction(transaction)
+  );
 };
 
 /** Transferring to this account may fail, but we attempt to create a new one below */
@@ -1,10 +1,11 @@
-import { ProposalTypes } from "@walletconnect/types";
+import { ProposalTypes, SessionTypes } from "@walletconnect/types";
 import {
   DEFAULT_EIP155_METHODS,
   DEFAULT_EIP_155_EVENTS,
   DEFAULT_NEAR_EVENTS,
   DEFAULT_EIP155_OPTIONAL_METHODS,
   DEFAULT_HEDERA_METHODS,
+  DEFAULT_HEDERA_OPTIONAL_METHODS,
   DEFAULT_HEDERA_EVENTS,
 } from "../constants";
 
@@ -38,7 +39,7 @@ export const getSupportedOptionalMethodsByNamespace = (namespace: string) => {
     case "eip155":
       return Object.values(DEFAULT_EIP155_OPTIONAL_METHODS);
     case "hedera":
-      return [];
+      return Object.values(DEFAULT_HEDERA_OPTIONAL_METHODS);
     default:
       throw new Error(
         `No default optional methods for namespace: ${namespace}`
@@ -92,3 +93,83 @@ export const getOptionalNamespaces = (
     ])
   );
 };
+
+/**
+ * Hedera session events, as wallets send them
+ */
+export type HederaSessionEvent =
+  | { name: DEFAULT_HEDERA_EVENTS.HEDERA_ACCOUNTS_CHANGED; data: string[] }
+  | { name: DEFAULT_HEDERA_EVENTS.HEDERA_CHAIN_CHANGED; data: string };
+
+export const isHederaSessionEvent = (event: {
+  name: string;
+  data: unknown;
+}): event is HederaSessionEvent => {
+  switch (event.name) {
+    case DEFAULT_HEDERA_EVENTS.HEDERA_ACCOUNTS_CHANGED:
+      return (
+        Array.isArray(event.data) &&
+        event.data.every((account) => typeof account === "string")
+      );
+    case DEFAULT_HEDERA_EVENTS.HEDERA_CHAIN_CHANGED:
+      return typeof event.data === "string" && event.data.length > 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Hedera chains the session was approved or proposed for, a wallet can only
+ * switch to one of them
+ */
+export const getApprovedHederaChains = (session: SessionTypes.Struct) => [
+  ...(session.namespaces.hedera?.chains ?? []),
+  ...(session.requiredNamespaces.hedera?.chains ?? []),
+  ...(session.optionalNamespaces?.hedera?.chains ?? []),
+];
+
+/**
+ * Session namespaces after a Hedera `accountsChanged` or `chainChanged` event.
+ * Wallets may send accounts as `0.0.x` or CAIP-10 account ids, and chains as
+ * `testnet` or `hedera:testnet`. A change to a chain that is not approved is
+ * ignored.
+ */
+export const applyHederaSessionEvent = (
+  namespaces: SessionTypes.Namespaces,
+  chainId: string,
+  event: HederaSessionEvent,
+  approvedChains: string[]
+): SessionTypes.Namespaces => {
+  const { hedera } = namespaces;
+  if (!hedera) return namespaces;
+
+  switch (event.name) {
+    case DEFAULT_HEDERA_EVENTS.HEDERA_ACCOUNTS_CHANGED:
+      return {
+        ...namespaces,
+        hedera: {
+          ...hedera,
+          accounts: event.data.map((account) =>
+            account.includes(":") ? account : `${chainId}:${account}`
+          ),
+        },
+      };
+    case DEFAULT_HEDERA_EVENTS.HEDERA_CHAIN_CHANGED: {
+      const reference = event.data.split(":").pop();
+      const nextChainId = `hedera:${reference}`;
+      if (!approvedChains.includes(nextChainId)) return namespaces;
+      return {
+        ...namespaces,
+        hedera: {
+          ...hedera,
+          chains: [nextChainId],
+          accounts: hedera.accounts.map(
+            (account) => `${nextChainId}:${account.split(":")[2]}`
+          ),
+        },
+      };
+    }
+    default:
+      return namespaces;
+  }
+};
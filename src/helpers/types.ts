@@ -150,13 +150,44 @@ export interface ChainNamespaces {
 
 export interface AccountAction {
   method: string;
+  /** Methods the action requests, it is only shown when all were approved */
+  methods?: string[];
   callback: (chainId: string, address: string) => Promise<void>;
 }
 
+export interface FormValues {
+  [name: string]: string;
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  multiline?: boolean;
+  /** Renders a file input, whose value is the file's base64 encoded contents */
+  file?: boolean;
+  /** Renders a select, with options derived from the other field values */
+  options?: (values: FormValues) => string[];
+}
+
 export interface AccountBalances {
   [account: string]: AssetData[];
 }
 
+export interface NftData {
+  tokenId: string;
+  serialNumber: string;
+  metadata: string;
+  name?: string;
+  description?: string;
+  image?: string;
+}
+
+export interface AccountNfts {
+  [account: string]: NftData[];
+}
+
 export type TypedRequestParams<T> = Omit<
   EngineTypes.RequestParams,
   "request"
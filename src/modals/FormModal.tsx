@@ -0,0 +1,137 @@
+import * as React from "react";
+import { useState } from "react";
+import styled from "styled-components";
+
+import Button from "../components/Button";
+import { FormField, FormValues } from "../helpers";
+import { colors } from "../styles";
+
+import { SModalContainer, SModalTitle, SModalWarning } from "./shared";
+
+const SForm = styled.form`
+  width: 100%;
+  display: flex;
+  flex-direction: column;
+  text-align: left;
+`;
+
+const SField = styled.label`
+  width: 100%;
+  display: flex;
+  flex-direction: column;
+  margin: 6px 0;
+  font-weight: 700;
+`;
+
+const SInput = styled.input`
+  margin-top: 4px;
+  padding: 8px;
+  border-radius: 4px;
+  border: 1px solid rgb(${colors.lightGrey});
+  font-family: monospace;
+`;
+
+const STextArea = styled.textarea`
+  margin-top: 4px;
+  padding: 8px;
+  min-height: 120px;
+  border-radius: 4px;
+  border: 1px solid rgb(${colors.lightGrey});
+  font-family: monospace;
+`;
+
+const SSelect = styled.select`
+  margin-top: 4px;
+  padding: 8px;
+  border-radius: 4px;
+  border: 1px solid rgb(${colors.lightGrey});
+  font-family: monospace;
+`;
+
+const SSubmitButton = styled(Button as any)`
+  margin-top: 12px;
+`;
+
+interface FormModalProps {
+  title: string;
+  fields: FormField[];
+  onSubmit: (values: FormValues) => void;
+  error?: string;
+}
+
+const FormModal = (props: FormModalProps) => {
+  const { title, fields, onSubmit, error } = props;
+  const [values, setValues] = useState<FormValues>(() =>
+    Object.fromEntries(
+      fields.map((field) => [field.name, field.defaultValue ?? ""])
+    )
+  );
+
+  const onChange = (name: string, value: string) =>
+    setValues({ ...values, [name]: value });
+
+  const onFileChange = (name: string, file?: File) => {
+    if (!file) return onChange(name, "");
+    const reader = new FileReader();
+    // strip the `data:<type>;base64,` prefix
+    reader.onload = () =>
+      onChange(name, (reader.result as string).split(",").pop() ?? "");
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <SModalContainer>
+      <SModalTitle>{title}</SModalTitle>
+      {error ? <SModalWarning>{error}</SModalWarning> : null}
+      {error ? null : (
+        <SForm
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit(values);
+          }}
+        >
+          {fields.map((field) => (
+            <SField key={field.name}>
+              {field.label}
+              {field.file ? (
+                <SInput
+                  type="file"
+                  onChange={(e) =>
+                    onFileChange(field.name, e.target.files?.[0])
+                  }
+                />
+              ) : field.options ? (
+                <SSelect
+                  value={values[field.name]}
+                  onChange={(e) => onChange(field.name, e.target.value)}
+                >
+                  <option value="">{field.placeholder ?? ""}</option>
+                  {field.options(values).map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </SSelect>
+              ) : field.multiline ? (
+                <STextArea
+                  placeholder={field.placeholder}
+                  value={values[field.name]}
+                  onChange={(e) => onChange(field.name, e.target.value)}
+                />
+              ) : (
+                <SInput
+                  placeholder={field.placeholder}
+                  value={values[field.name]}
+                  onChange={(e) => onChange(field.name, e.target.value)}
+                />
+              )}
+            </SField>
+          ))}
+          <SSubmitButton type="submit">{"Send Request"}</SSubmitButton>
+        </SForm>
+      )}
+    </SModalContainer>
+  );
+};
+
+export default FormModal;
@@ -4,21 +4,83 @@ import Loader from "../components/Loader";
 import { SContainer, STable, SRow, SKey, SValue } from "../components/shared";
 import ScrollableData from "../components/ScrollableData";
 
-import { SModalContainer, SModalTitle, SModalParagraph } from "./shared";
+import {
+  SModalContainer,
+  SModalTitle,
+  SModalParagraph,
+  SModalWarning,
+} from "./shared";
 
 interface RequestModalProps {
   pending: boolean;
   result: any;
+  progress?: {
+    step: number;
+    total: number;
+    label: string;
+  } | null;
+  retry?: {
+    attempt: number;
+    maxRetries: number;
+    status: string;
+  } | null;
 }
 
+const ERROR_TITLES: Record<string, string> = {
+  wallet: "Rejected by Wallet",
+  precheck: "Rejected by Node",
+  receipt: "Transaction Failed",
+  network: "Network Error",
+  unknown: "Request Failed",
+};
+
+const ERROR_SOURCES: Record<string, string> = {
+  wallet: "wallet",
+  precheck: "node precheck",
+  receipt: "transaction receipt",
+  network: "node or mirror node",
+};
+
+/**
+ * Decoded fields of a response, nested values are shown as JSON
+ */
+const ResultTable = ({ fields }: { fields: Record<string, unknown> }) => (
+  <STable>
+    {Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([field, value]) => (
+        <SRow key={field}>
+          <SKey>{field}</SKey>
+          <SValue>
+            {typeof value === "object" ? (
+              <ScrollableData data={JSON.stringify(value)} />
+            ) : (
+              String(value)
+            )}
+          </SValue>
+        </SRow>
+      ))}
+  </STable>
+);
+
 const RequestModal = (props: RequestModalProps) => {
-  const { pending, result } = props;
+  const { pending, result, progress, retry } = props;
   return (
     <>
       {pending ? (
         <SModalContainer>
           <SModalTitle>{"Pending Request"}</SModalTitle>
           <SContainer>
+            {retry ? (
+              <SModalParagraph>
+                {`Retry ${retry.attempt} of ${retry.maxRetries}: the previous attempt failed with ${retry.status}, please approve the new request`}
+              </SModalParagraph>
+            ) : null}
+            {progress ? (
+              <SModalParagraph>
+                {`Step ${progress.step} of ${progress.total}: ${progress.label}`}
+              </SModalParagraph>
+            ) : null}
             <Loader />
             <SModalParagraph>
               {"Approve or reject request using your wallet"}
@@ -28,21 +90,55 @@ const RequestModal = (props: RequestModalProps) => {
       ) : result ? (
         <SModalContainer>
           <SModalTitle>
-            {result.valid ? "Request Approved" : "Request Failed"}
+            {result.valid
+              ? "Request Approved"
+              : ERROR_TITLES[result.error?.kind] ?? "Request Failed"}
           </SModalTitle>
+          {result.error?.hint ? (
+            <SModalWarning>{result.error.hint}</SModalWarning>
+          ) : null}
+          {result.warnings?.map((warning: string) => (
+            <SModalWarning key={warning}>{warning}</SModalWarning>
+          ))}
           <STable>
-            {Object.keys(result).map((key) => (
-              <SRow key={key}>
-                <SKey>{key}</SKey>
+            {result.items?.map((item: any) => (
+              <SRow key={item.label}>
+                <SKey>{item.label}</SKey>
                 <SValue>
-                  {key === "result" ? (
-                    <ScrollableData data={result[key]} />
-                  ) : (
-                    result[key].toString()
-                  )}
+                  {`${item.success ? "Success" : "Failed"}: ${item.detail}`}
                 </SValue>
               </SRow>
             ))}
+            {Object.keys(result)
+              .filter((key) => !["items", "warnings", "error"].includes(key))
+              .map((key) => (
+                <SRow key={key}>
+                  <SKey>{key}</SKey>
+                  <SValue>
+                    {key === "result" && typeof result[key] === "object" ? (
+                      <ResultTable fields={result[key]} />
+                    ) : key === "result" ? (
+                      <ScrollableData data={result[key]} />
+                    ) : (
+                      result[key].toString()
+                    )}
+                  </SValue>
+                </SRow>
+              ))}
+            {result.error ? (
+              <SRow>
+                <SKey>{"error"}</SKey>
+                <SValue>
+                  <ResultTable
+                    fields={{
+                      source: ERROR_SOURCES[result.error.kind],
+                      status: result.error.status,
+                      code: result.error.code,
+                    }}
+                  />
+                </SValue>
+              </SRow>
+            ) : null}
           </STable>
         </SModalContainer>
       ) : (
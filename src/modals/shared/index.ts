@@ -1,5 +1,7 @@
 import styled from "styled-components";
 
+import { colors } from "../../styles";
+
 export const SModalContainer = styled.div`
   width: 100%;
   position: relative;
@@ -15,3 +17,9 @@ export const SModalTitle = styled.div`
 export const SModalParagraph = styled.p`
   margin-top: 30px;
 `;
+
+export const SModalWarning = styled.p`
+  margin-top: 20px;
+  font-weight: 600;
+  color: rgb(${colors.red});
+`;
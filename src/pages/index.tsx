@@ -12,13 +12,26 @@ import {
   DEFAULT_MAIN_CHAINS,
   DEFAULT_TEST_CHAINS,
   DEFAULT_HEDERA_METHODS,
+  DEFAULT_HEDERA_OPTIONAL_METHODS,
   DEFAULT_EIP155_OPTIONAL_METHODS,
 } from "../constants";
-import { AccountAction, setLocaleStorageTestnetFlag } from "../helpers";
+import {
+  AccountAction,
+  FormField,
+  FormValues,
+  getHederaContractFunctions,
+  apiGetHederaAccountInfo,
+  apiGetHederaAccountTopics,
+  apiGetHederaNetworkNodes,
+  getHederaNodeAccountIds,
+  HEDERA_SCHEDULABLE_TRANSACTIONS,
+  setLocaleStorageTestnetFlag,
+} from "../helpers";
 import Toggle from "../components/Toggle";
 import RequestModal from "../modals/RequestModal";
 import PairingModal from "../modals/PairingModal";
 import PingModal from "../modals/PingModal";
+import FormModal from "../modals/FormModal";
 import {
   SAccounts,
   SAccountsContainer,
@@ -37,13 +50,26 @@ import { RequestType } from "@hashgraph/sdk";
 // Normal import does not work here
 const { version } = require("@walletconnect/sign-client/package.json");
 
+interface FormModalConfig {
+  title: string;
+  fields: FormField[];
+  onSubmit: (values: FormValues) => void;
+  /** Why the form could not be built */
+  error?: string;
+}
+
 const Home: NextPage = () => {
   const [modal, setModal] = useState("");
+  const [form, setForm] = useState<FormModalConfig>();
 
   const closeModal = () => setModal("");
   const openPairingModal = () => setModal("pairing");
   const openPingModal = () => setModal("ping");
   const openRequestModal = () => setModal("request");
+  const openFormModal = (config: FormModalConfig) => {
+    setForm(config);
+    setModal("form");
+  };
 
   // Initialize the WalletConnect client.
   const {
@@ -56,6 +82,7 @@ const Home: NextPage = () => {
     relayerRegion,
     accounts,
     balances,
+    nfts,
     isFetchingBalances,
     isInitializing,
     setChains,
@@ -69,6 +96,8 @@ const Home: NextPage = () => {
     hederaRpc,
     isRpcRequestPending,
     rpcResult,
+    rpcProgress,
+    rpcRetry,
     isTestnet,
     setIsTestnet,
   } = useJsonRpc();
@@ -172,10 +201,47 @@ const Home: NextPage = () => {
   };
 
   const openModalWithCallback =
-    (callback: keyof typeof hederaRpc) =>
+    (callback: AccountAction["callback"]) =>
     async (chainId: string, address: string) => {
       openRequestModal();
-      await hederaRpc[callback](chainId, address);
+      await callback(chainId, address);
+    };
+
+  const openFormModalWithCallback =
+    (
+      title: string,
+      fields:
+        | FormField[]
+        | ((address: string, chainId: string) => Promise<FormField[]>),
+      callback: (
+        chainId: string,
+        address: string,
+        values: FormValues
+      ) => Promise<void>
+    ) =>
+    async (chainId: string, address: string) => {
+      const onSubmit = async (values: FormValues) => {
+        openRequestModal();
+        await callback(chainId, address, values);
+      };
+      try {
+        openFormModal({
+          title,
+          fields:
+            typeof fields === "function"
+              ? await fields(address, chainId)
+              : fields,
+          onSubmit,
+        });
+      } catch (e: any) {
+        // fields that are looked up on the mirror node could not be fetched
+        openFormModal({
+          title,
+          fields: [],
+          onSubmit,
+          error: `Failed to load the form: ${e?.message ?? e}`,
+        });
+      }
     };
 
   const getHederaActions = (): AccountAction[] => {
@@ -187,34 +253,795 @@ const Home: NextPage = () => {
         DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
         ": " +
         RequestType.CryptoTransfer.toString(),
-      callback: openModalWithCallback("testSignAndExecuteCryptoTransfer"),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openModalWithCallback(
+        hederaRpc.testSignAndExecuteCryptoTransfer
+      ),
     });
 
+    /** Topics created by the account, to pick from in the topic forms */
+    const getTopicField = async (address: string): Promise<FormField> => {
+      const topics = await apiGetHederaAccountTopics(address);
+      return {
+        name: "topicId",
+        label: "Topic",
+        placeholder: topics.length ? "Select a topic" : "No topics created",
+        defaultValue: topics[0] ?? "",
+        options: () => topics,
+      };
+    };
+
     /** Sign and execute ConsensusSubmitMessage */
     actions.push({
       method:
         DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
         ": " +
         RequestType.ConsensusSubmitMessage.toString(),
-      callback: openModalWithCallback("testSignAndExecuteTopicSubmitMessage"),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Submit topic message",
+        async (address: string) => [
+          await getTopicField(address),
+          {
+            name: "message",
+            label: "Message",
+            defaultValue: `Hello from hedera-walletconnect-dapp at ${new Date().toISOString()}`,
+            multiline: true,
+          },
+          {
+            name: "file",
+            label: "File (replaces the message, sent in chunks if large)",
+            file: true,
+          },
+        ],
+        hederaRpc.testSignAndExecuteTopicSubmitMessage
+      ),
+    });
+
+    /** List the topics created by the account */
+    actions.push({
+      method: "Topics",
+      methods: [],
+      callback: openModalWithCallback(hederaRpc.testGetTopics),
+    });
+
+    /** Sign and execute ConsensusCreateTopic */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ConsensusCreateTopic.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Create topic",
+        [
+          {
+            name: "memo",
+            label: "Memo",
+            defaultValue: "hedera-walletconnect-dapp",
+          },
+          {
+            name: "adminKey",
+            label: "Admin key",
+            defaultValue: "account",
+            options: () => ["account", "none"],
+          },
+          {
+            name: "submitKey",
+            label: "Submit key",
+            defaultValue: "none",
+            options: () => ["account", "none"],
+          },
+        ],
+        hederaRpc.testSignAndExecuteTopicCreate
+      ),
+    });
+
+    /** Sign and execute ConsensusUpdateTopic */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ConsensusUpdateTopic.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Update topic",
+        async (address: string) => [
+          await getTopicField(address),
+          {
+            name: "memo",
+            label: "Memo (optional)",
+            placeholder: "Leave empty to keep the current memo",
+          },
+          {
+            name: "submitKey",
+            label: "Submit key",
+            defaultValue: "unchanged",
+            options: () => ["unchanged", "account", "none"],
+          },
+        ],
+        hederaRpc.testSignAndExecuteTopicUpdate
+      ),
+    });
+
+    /** Sign and execute ConsensusDeleteTopic */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ConsensusDeleteTopic.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Delete topic",
+        async (address: string) => [await getTopicField(address)],
+        hederaRpc.testSignAndExecuteTopicDelete
+      ),
+    });
+
+    /** Use the nodes the wallet is connected to */
+    actions.push({
+      method: DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_GET_NODE_ADDRESSES,
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_GET_NODE_ADDRESSES],
+      callback: openModalWithCallback(hederaRpc.testGetNodeAddresses),
+    });
+
+    /** Nodes that transactions are frozen for */
+    actions.push({
+      method: "Nodes",
+      methods: [],
+      callback: openFormModalWithCallback(
+        "Select nodes",
+        async (address: string, chainId: string) => {
+          const nodes = await apiGetHederaNetworkNodes();
+          const selected = await getHederaNodeAccountIds(chainId);
+          return [
+            {
+              name: "nodeAccountIds",
+              label: `Nodes (comma separated, available: ${nodes
+                .map(({ nodeAccountId }) => nodeAccountId)
+                .join(", ")})`,
+              defaultValue: selected.join(", "),
+            },
+          ];
+        },
+        hederaRpc.testSelectNodes
+      ),
+    });
+
+    /** Sign and execute several transactions with a single approval */
+    actions.push({
+      method: DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_BATCH,
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_BATCH],
+      callback: openFormModalWithCallback(
+        "Batch: associate token and transfer HBAR",
+        [
+          {
+            name: "tokenId",
+            label: "Token to associate (optional)",
+            placeholder: "0.0.12345",
+          },
+          {
+            name: "receiverIds",
+            label: "HBAR receivers (comma separated)",
+            placeholder: "0.0.54321, 0.0.54322",
+          },
+          {
+            name: "amount",
+            label: "HBAR amount per receiver",
+            defaultValue: "0.1",
+          },
+        ],
+        hederaRpc.testSignAndExecuteBatch
+      ),
     });
 
     /** Sign and return CryptoTransfer */
     actions.push({
       method:
-        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION +
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION +
+        ": " +
+        RequestType.CryptoTransfer.toString(),
+      methods: [
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION,
+      ],
+      callback: openModalWithCallback(
+        hederaRpc.testSignAndReturnCryptoTransfer
+      ),
+    });
+
+    /** Sign CryptoTransfer and return only the signatures */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_TRANSACTION +
+        ": " +
+        RequestType.CryptoTransfer.toString(),
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_TRANSACTION],
+      callback: openModalWithCallback(hederaRpc.testSignCryptoTransfer),
+    });
+
+    /** Sign and return CryptoTransfer, then submit the signed bytes */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_EXECUTE_TRANSACTION +
         ": " +
         RequestType.CryptoTransfer.toString(),
-      callback: openModalWithCallback("testSignAndReturnCryptoTransfer"),
+      methods: [
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_RETURN_TRANSACTION,
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_EXECUTE_TRANSACTION,
+      ],
+      callback: openFormModalWithCallback(
+        "Sign, inspect and submit transfer",
+        [
+          {
+            name: "submitVia",
+            label: "Submit via",
+            defaultValue: "wallet",
+            options: () => ["wallet", "local client"],
+          },
+        ],
+        hederaRpc.testSignReturnAndExecuteCryptoTransfer
+      ),
+    });
+
+    /** Pay for and execute AccountInfoQuery */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY +
+        ": AccountInfoQuery",
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY],
+      callback: openFormModalWithCallback(
+        "Query account info",
+        async (address: string) => [
+          { name: "accountId", label: "Account ID", defaultValue: address },
+        ],
+        hederaRpc.testSignAndExecuteAccountInfoQuery
+      ),
+    });
+
+    /** Pay for and execute TokenInfoQuery */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY +
+        ": TokenInfoQuery",
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY],
+      callback: openFormModalWithCallback(
+        "Query token info",
+        [{ name: "tokenId", label: "Token ID", placeholder: "0.0.12345" }],
+        hederaRpc.testSignAndExecuteTokenInfoQuery
+      ),
+    });
+
+    /** Pay for and execute ContractCallQuery of a view function */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY +
+        ": ContractCallQuery",
+      methods: [DEFAULT_HEDERA_OPTIONAL_METHODS.HEDERA_SIGN_AND_EXECUTE_QUERY],
+      callback: openFormModalWithCallback(
+        "Query contract function",
+        [
+          {
+            name: "contractId",
+            label: "Contract ID",
+            placeholder: "0.0.12345",
+          },
+          {
+            name: "abi",
+            label: "ABI (JSON)",
+            placeholder: '[{"type": "function", ...}]',
+            multiline: true,
+          },
+          {
+            name: "functionName",
+            label: "Function",
+            placeholder: "Select a view function",
+            options: (values) => getHederaContractFunctions(values.abi, true),
+          },
+          {
+            name: "args",
+            label: "Arguments (JSON array)",
+            defaultValue: "[]",
+          },
+          { name: "gas", label: "Gas", defaultValue: "100000" },
+        ],
+        hederaRpc.testSignAndExecuteContractCallQuery
+      ),
     });
 
     /** Sign and return arbitrary data */
     actions.push({
       method: DEFAULT_HEDERA_METHODS.HEDERA_SIGN_MESSAGE,
-      callback: openModalWithCallback("testSignMessage"),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_MESSAGE],
+      callback: openModalWithCallback(hederaRpc.testSignMessage),
+    });
+
+    /** Sign and execute TokenCreate */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenCreate.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Create fungible token",
+        [
+          { name: "name", label: "Name", defaultValue: "Test Token" },
+          { name: "symbol", label: "Symbol", defaultValue: "TEST" },
+          { name: "decimals", label: "Decimals", defaultValue: "2" },
+          {
+            name: "initialSupply",
+            label: "Initial supply (smallest units)",
+            defaultValue: "100000",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenCreate
+      ),
+    });
+
+    /** Sign and execute TokenMint */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenMint.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Mint fungible token",
+        [
+          { name: "tokenId", label: "Token ID", placeholder: "0.0.12345" },
+          {
+            name: "amount",
+            label: "Amount (smallest units)",
+            defaultValue: "1000",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenMint
+      ),
+    });
+
+    /** Sign and execute TokenBurn */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenBurn.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Burn fungible token",
+        [
+          { name: "tokenId", label: "Token ID", placeholder: "0.0.12345" },
+          {
+            name: "amount",
+            label: "Amount (smallest units)",
+            defaultValue: "1000",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenBurn
+      ),
+    });
+
+    /** Sign and execute TokenAssociate */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenAssociateToAccount.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Associate tokens",
+        [
+          {
+            name: "tokenIds",
+            label: "Token IDs (comma separated)",
+            placeholder: "0.0.12345, 0.0.67890",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenAssociate
+      ),
+    });
+
+    /** Sign and execute TokenDissociate */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenDissociateFromAccount.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Dissociate tokens",
+        [
+          {
+            name: "tokenIds",
+            label: "Token IDs (comma separated)",
+            placeholder: "0.0.12345, 0.0.67890",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenDissociate
+      ),
+    });
+
+    /** Sign and execute CryptoTransfer of a fungible token */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoTransfer.toString() +
+        " (token)",
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Transfer fungible token",
+        [
+          { name: "tokenId", label: "Token ID", placeholder: "0.0.12345" },
+          { name: "receiverId", label: "Receiver", placeholder: "0.0.54321" },
+          { name: "amount", label: "Amount", defaultValue: "1.5" },
+          {
+            name: "hbarAmount",
+            label: "HBAR amount (optional)",
+            placeholder: "0.1",
+          },
+        ],
+        hederaRpc.testSignAndExecuteTokenTransfer
+      ),
+    });
+
+    /** Sign and execute TokenCreate of a non-fungible token */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenCreate.toString() +
+        " (NFT)",
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Create NFT collection",
+        [
+          { name: "name", label: "Name", defaultValue: "Test NFT" },
+          { name: "symbol", label: "Symbol", defaultValue: "TNFT" },
+        ],
+        hederaRpc.testSignAndExecuteNftCreate
+      ),
+    });
+
+    /** Sign and execute TokenMint of NFT serials */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.TokenMint.toString() +
+        " (NFT)",
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Mint NFTs",
+        [
+          { name: "tokenId", label: "Token ID", placeholder: "0.0.12345" },
+          {
+            name: "metadata",
+            label: "HIP-412 metadata (JSON or URI)",
+            defaultValue: JSON.stringify(
+              { name: "Test NFT", image: "ipfs://", type: "image/png" },
+              null,
+              2
+            ),
+            multiline: true,
+          },
+          { name: "count", label: "Number of serials", defaultValue: "1" },
+        ],
+        hederaRpc.testSignAndExecuteNftMint
+      ),
+    });
+
+    /** Sign and execute CryptoTransfer of an NFT serial */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoTransfer.toString() +
+        " (NFT)",
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Transfer NFT",
+        [
+          { name: "tokenId", label: "Token ID", placeholder: "0.0.12345" },
+          { name: "serialNumber", label: "Serial number", defaultValue: "1" },
+          { name: "receiverId", label: "Receiver", placeholder: "0.0.54321" },
+        ],
+        hederaRpc.testSignAndExecuteNftTransfer
+      ),
+    });
+
+    /** Sign and execute ContractCall */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ContractCall.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Call contract function",
+        [
+          {
+            name: "contractId",
+            label: "Contract ID",
+            placeholder: "0.0.12345",
+          },
+          {
+            name: "abi",
+            label: "ABI (JSON)",
+            placeholder: '[{"type": "function", ...}]',
+            multiline: true,
+          },
+          {
+            name: "functionName",
+            label: "Function",
+            placeholder: "Select a function",
+            options: (values) => getHederaContractFunctions(values.abi),
+          },
+          {
+            name: "args",
+            label: "Arguments (JSON array)",
+            defaultValue: "[]",
+          },
+          { name: "gas", label: "Gas", defaultValue: "100000" },
+          {
+            name: "payableAmount",
+            label: "Payable HBAR (optional)",
+            placeholder: "0",
+          },
+        ],
+        hederaRpc.testSignAndExecuteContractCall
+      ),
+    });
+
+    /** Sign and execute FileCreate, FileAppend(s) and ContractCreate */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ContractCreate.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Deploy contract",
+        [
+          {
+            name: "bytecode",
+            label: "Bytecode (hex)",
+            placeholder: "0x6080...",
+            multiline: true,
+          },
+          {
+            name: "abi",
+            label: "ABI (JSON, optional)",
+            placeholder: '[{"type": "constructor", ...}]',
+            multiline: true,
+          },
+          {
+            name: "args",
+            label: "Constructor arguments (JSON array)",
+            defaultValue: "[]",
+          },
+          { name: "gas", label: "Gas", defaultValue: "1000000" },
+        ],
+        hederaRpc.testDeployContract
+      ),
+    });
+
+    /** Sign and execute ScheduleCreate wrapping one of the built transactions */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ScheduleCreate.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Schedule transaction",
+        [
+          {
+            name: "transaction",
+            label: "Transaction",
+            defaultValue: HEDERA_SCHEDULABLE_TRANSACTIONS.HBAR_TRANSFER,
+            options: () => Object.values(HEDERA_SCHEDULABLE_TRANSACTIONS),
+          },
+          {
+            name: "senderId",
+            label: "Sender (transfers)",
+            placeholder: "0.0.12345",
+          },
+          {
+            name: "receiverId",
+            label: "Receiver (transfers)",
+            placeholder: "0.0.54321",
+          },
+          {
+            name: "tokenId",
+            label: "Token (token transfers and mints)",
+            placeholder: "0.0.12345",
+          },
+          { name: "amount", label: "Amount", defaultValue: "1" },
+          {
+            name: "memo",
+            label: "Schedule memo",
+            defaultValue: "Treasury approval",
+          },
+        ],
+        hederaRpc.testSignAndExecuteScheduleCreate
+      ),
+    });
+
+    /** Sign and execute ScheduleSign */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.ScheduleSign.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Approve scheduled transaction",
+        [
+          {
+            name: "scheduleId",
+            label: "Schedule ID",
+            placeholder: "0.0.12345",
+          },
+        ],
+        hederaRpc.testSignAndExecuteScheduleSign
+      ),
+    });
+
+    /** Look up a schedule's signatures and execution on the mirror node */
+    actions.push({
+      method: "Schedule status",
+      methods: [],
+      callback: openFormModalWithCallback(
+        "Schedule status",
+        [
+          {
+            name: "scheduleId",
+            label: "Schedule ID",
+            placeholder: "0.0.12345",
+          },
+        ],
+        hederaRpc.testGetScheduleInfo
+      ),
+    });
+
+    /** Sign and execute AccountUpdate, prefilled with the account's current settings */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoUpdate.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Account settings",
+        async (address: string) => {
+          const info = await apiGetHederaAccountInfo(address);
+          return [
+            { name: "memo", label: "Memo", defaultValue: info.memo },
+            {
+              name: "maxAutomaticTokenAssociations",
+              label: "Max automatic token associations",
+              defaultValue: info.maxAutomaticTokenAssociations.toString(),
+            },
+            {
+              name: "stakedNodeId",
+              label: "Staked node ID",
+              defaultValue: info.stakedNodeId?.toString() ?? "",
+            },
+            {
+              name: "stakedAccountId",
+              label: "Staked account ID (overrides node)",
+              defaultValue: info.stakedAccountId ?? "",
+            },
+            {
+              name: "declineStakingReward",
+              label: "Decline staking reward",
+              defaultValue: info.declineStakingReward.toString(),
+              options: () => ["false", "true"],
+            },
+            {
+              name: "newPublicKey",
+              label: "New public key (optional, its holder is asked to sign)",
+              placeholder: "302a300506032b6570032100...",
+            },
+          ];
+        },
+        hederaRpc.testSignAndExecuteAccountUpdate
+      ),
+    });
+
+    const allowanceFields: FormField[] = [
+      {
+        name: "type",
+        label: "Allowance type",
+        defaultValue: "hbar",
+        options: () => ["hbar", "token", "nft"],
+      },
+      { name: "spenderId", label: "Spender", placeholder: "0.0.54321" },
+      {
+        name: "tokenId",
+        label: "Token ID (token and nft)",
+        placeholder: "0.0.12345",
+      },
+    ];
+
+    /** List the account's allowances from the mirror node */
+    actions.push({
+      method: "Allowances",
+      methods: [],
+      callback: openModalWithCallback(hederaRpc.testGetAllowances),
     });
 
-    return actions;
+    /** Sign and execute AccountAllowanceApprove */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoApproveAllowance.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Approve allowance",
+        [
+          ...allowanceFields,
+          {
+            name: "amount",
+            label: "Amount (hbar and token)",
+            defaultValue: "1",
+          },
+          {
+            name: "serials",
+            label: "Serial numbers (nft, comma separated, empty for all)",
+            placeholder: "1, 2, 3",
+          },
+        ],
+        hederaRpc.testSignAndExecuteAllowanceApprove
+      ),
+    });
+
+    /** Sign and execute AccountAllowanceDelete, or an approval of nothing */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoDeleteAllowance.toString(),
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Revoke allowance",
+        [
+          ...allowanceFields,
+          {
+            name: "serials",
+            label: "Serial numbers (nft, comma separated, empty for all)",
+            placeholder: "1, 2, 3",
+          },
+        ],
+        hederaRpc.testSignAndExecuteAllowanceRevoke
+      ),
+    });
+
+    /** Sign and execute CryptoTransfer spending an HBAR allowance */
+    actions.push({
+      method:
+        DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION +
+        ": " +
+        RequestType.CryptoTransfer.toString() +
+        " (approved)",
+      methods: [DEFAULT_HEDERA_METHODS.HEDERA_SIGN_AND_EXECUTE_TRANSACTION],
+      callback: openFormModalWithCallback(
+        "Spend HBAR allowance",
+        [
+          { name: "ownerId", label: "Owner", placeholder: "0.0.12345" },
+          { name: "receiverId", label: "Receiver", placeholder: "0.0.54321" },
+          { name: "amount", label: "HBAR amount", defaultValue: "1" },
+        ],
+        hederaRpc.testSignAndExecuteApprovedTransfer
+      ),
+    });
+
+    const approvedMethods = session?.namespaces?.["hedera"]?.methods ?? [];
+
+    return actions.filter(({ methods = [] }) =>
+      methods.every((method) => approvedMethods.includes(method))
+    );
   };
 
   const getBlockchainActions = (chainId: string) => {
@@ -254,10 +1081,25 @@ const Home: NextPage = () => {
         return <PairingModal pairings={pairings} connect={connect} />;
       case "request":
         return (
-          <RequestModal pending={isRpcRequestPending} result={rpcResult} />
+          <RequestModal
+            pending={isRpcRequestPending}
+            result={rpcResult}
+            progress={rpcProgress}
+            retry={rpcRetry}
+          />
         );
       case "ping":
         return <PingModal pending={isRpcRequestPending} result={rpcResult} />;
+      case "form":
+        return form ? (
+          <FormModal
+            key={form.title}
+            title={form.title}
+            fields={form.fields}
+            onSubmit={form.onSubmit}
+            error={form.error}
+          />
+        ) : null;
       default:
         return null;
     }
@@ -309,6 +1151,7 @@ const Home: NextPage = () => {
                 address={address}
                 chainId={chainId}
                 balances={balances}
+                nfts={nfts}
                 actions={getBlockchainActions(chainId)}
               />
             );